@@ -1,245 +1,153 @@
-import type { GameState, Move, Square, PieceType } from "./types";
-import { inBounds } from "./geom";
+import type { GameState, RulesConfig, Move, Square, PieceType, DeployType, GameEvent, ActionResult, IllegalReason } from "./types";
+import { inBounds, sameSq } from "./geom";
 import { pieceAt, staticAt, flyerAt } from "./indexes";
-import { markHeatAfterMove } from "./starHeat";
-import { hazardTick, maybeSpawnHazards } from "./hazards";
-
-function isAdjacent(a: Square, b: Square): boolean {
-  return Math.abs(a.r - b.r) <= 1 && Math.abs(a.c - b.c) <= 1 && !(a.r === b.r && a.c === b.c);
-}
+import { wormholeExit } from "./wormholes";
+import { advanceOrbits } from "./orbits";
+import { markHeatAfterMove, burnHeatedPieces, heatedPieceIds } from "./starHeat";
+import { hazardTick, maybeSpawnHazards, spawnPendingHazards } from "./hazards";
+import { collectPlanetIncome } from "./mining";
+import { inDeployZone } from "./deployZones";
+import { cloneState } from "./clone";
+import { nextDeployedPieceId } from "./ids";
+import { kingSquare, isInCheck } from "./attacks";
+import { pieceDestinations, promotionRowFor, PROMOTION_TYPES } from "./moveGen";
 
 function other(side: "W" | "B"): "W" | "B" {
   return side === "W" ? "B" : "W";
 }
 
-// Simple unique id for deployed ships
-let deployPieceCounter = 0;
-function newDeployedPieceId(side: "W" | "B", type: PieceType) {
-  deployPieceCounter += 1;
-  return `${side}${type}_d${deployPieceCounter}`;
-}
-
-
-function burnOverheatedPiecesIfStillAdjacentToStar(
-  state: GameState,
-  side: "W" | "B",
-  overheatedIdsAtTurnStart: Set<string>
-): void {
-  const stars = state.statics.filter(h => h.kind === "star").map(h => h.pos);
-  if (stars.length === 0) return;
-
-  for (const p of state.pieces) {
-    if (!p.alive) continue;
-    if (p.side !== side) continue;
-    if (!overheatedIdsAtTurnStart.has(p.id)) continue;
-
-    // If still adjacent to ANY star at end of this side's action, burn it
-    const stillAdjacent = stars.some(spos => isAdjacent(p.pos, spos));
-    if (stillAdjacent) {
-      p.alive = false;
-    }
-  }
-}
-
 
+// "full": the real hazard phase; "tickOnly": the phase without rolling a new spawn forecast
+// (AI lookahead); "none": no hazard phase at all
+type SimMode = "full" | "tickOnly" | "none";
 
-//function other(side: "W" | "B"): "W" | "B" {
-//  return side === "W" ? "B" : "W";
-//}
-
-function pathClearForSlide(state: GameState, from: Square, to: Square, dr: number, dc: number): boolean {
-  let r = from.r + dr;
-  let c = from.c + dc;
-
-  // walk squares between from and to (exclusive)
-  while (r !== to.r || c !== to.c) {
-    const sq = { r, c };
-
-    // Pieces block
-    if (pieceAt(state, sq)) return false;
-
-    // Static hazards block
-    if (staticAt(state, sq)) return false;
-
-    // Flying hazards also block sliding rays
-    const hz = flyerAt(state, sq);
-    if (hz && hz.alive) return false;
-
-    r += dr;
-    c += dc;
-  }
+/**
+ * King-safety probe: play the action on a copy (no hazards) and report whether
+ * the acting side's king ends up capturable, or gone (e.g. flown into a planet).
+ * Actions the engine rejects anyway report false.
+ */
+function leavesOwnKingExposed(state: GameState, act: (sim: GameState) => ActionResult): boolean {
+  const side = state.sideToMove;
+  if (!kingSquare(state, side)) return false;
 
-  return true;
-}
+  const sim = cloneState(state);
+  sim.rules.kingSafety = false; // don't recurse into this probe
+  if (!act(sim).ok) return false;
 
-function isRookMoveLegal(state: GameState, from: Square, to: Square): boolean {
-  if (from.r === to.r && from.c !== to.c) {
-    const dc = to.c > from.c ? 1 : -1;
-    return pathClearForSlide(state, from, to, 0, dc);
-  }
-  if (from.c === to.c && from.r !== to.r) {
-    const dr = to.r > from.r ? 1 : -1;
-    return pathClearForSlide(state, from, to, dr, 0);
-  }
-  return false;
+  if (!kingSquare(sim, side)) return true;
+  return isInCheck(sim, side);
 }
 
-function isKnightMoveLegal(from: Square, to: Square): boolean {
-  const dr = Math.abs(to.r - from.r);
-  const dc = Math.abs(to.c - from.c);
-  return (dr === 2 && dc === 1) || (dr === 1 && dc === 2);
+// Dead pieces stay in state.pieces, so this only ever grows
+function destroyedCount(state: GameState): number {
+  return state.pieces.filter(p => !p.alive).length;
 }
 
-function isKingMoveLegal(from: Square, to: Square): boolean {
-  const dr = Math.abs(to.r - from.r);
-  const dc = Math.abs(to.c - from.c);
-  // no castling (spacecraft), just one square any direction
-  return (dr <= 1 && dc <= 1) && !(dr === 0 && dc === 0);
+/**
+ * Hazard cadence: true if the action played on ply `ply` (before it increments)
+ * is followed by a hazard phase. Every round (2) means after each of Black's actions.
+ */
+export function isHazardPly(rules: RulesConfig, ply: number): boolean {
+  const every = Math.max(1, rules.hazards.hazardEveryPlies);
+  return (ply + 1) % every === 0;
 }
 
-
-function isBishopMoveLegal(state: GameState, from: Square, to: Square): boolean {
-  const dr = to.r - from.r;
-  const dc = to.c - from.c;
-  if (dr === 0 || dc === 0) return false;
-  if (Math.abs(dr) !== Math.abs(dc)) return false;
-
-  const stepR = dr > 0 ? 1 : -1;
-  const stepC = dc > 0 ? 1 : -1;
-  return pathClearForSlide(state, from, to, stepR, stepC);
+/**
+ * The hazard phase on its own: flyers move, orbiting planets advance, then the forecast
+ * flyers spawn and the next spawns are forecast.
+ * Used after each hazard ply (or later, when the UI delays it for effect).
+ * Hazard kills count as captures for the move-limit clock.
+ */
+export function runHazardPhase(state: GameState, simMode: "full" | "tickOnly" = "full"): GameEvent[] {
+  const events: GameEvent[] = [];
+  const destroyedBefore = destroyedCount(state);
+
+  hazardTick(state, events);
+  advanceOrbits(state, events);
+  // Forecast spawns are public, so a "tickOnly" simulation still brings them in;
+  // it just never rolls (and peeks at) the forecast after that
+  if (simMode === "full") maybeSpawnHazards(state, events);
+  else spawnPendingHazards(state, events);
+
+  if (destroyedCount(state) > destroyedBefore) state.plySinceCapture = 0;
+  return events;
 }
 
-function isPawnMoveLegal(state: GameState, from: Square, to: Square, side: "W" | "B"): boolean {
-  const dir = side === "W" ? -1 : 1; // white moves "up" the board visually
-  const startRank = side === "W" ? state.rows - 2 : 1; // rank 2 or 9 internally
-
-  const dr = to.r - from.r;
-  const dc = to.c - from.c;
-
-  const destPiece = pieceAt(state, to);
-
-    // Straight forward move
-  if (dc === 0) {
-    const hz = flyerAt(state, to);
-
-    // One square forward
-    if (dr === dir && !destPiece) {
-      // normal move onto empty square
-      if (!staticAt(state, to) && !(hz && hz.alive)) return true;
-
-      // suicidal move into static or flying hazard
-      if (staticAt(state, to)) return true;
-      if (hz && hz.alive) return true;
-    }
-
-    // Two-square launch boost from starting rank
-    if (from.r === startRank && dr === 2 * dir && !destPiece) {
-      const mid = { r: from.r + dir, c: from.c };
-
-      // mid-square must be clear of pieces and static hazards
-      if (pieceAt(state, mid)) return false;
-      if (staticAt(state, mid)) return false;
-
-      // destination can be empty OR hazard (suicidal)
-      const hz2 = flyerAt(state, to);
-      if (!staticAt(state, to) && !(hz2 && hz2.alive)) return true;
-      if (staticAt(state, to)) return true;
-      if (hz2 && hz2.alive) return true;
-    }
-  }
-
-  // Diagonal capture
-    // Diagonal capture OR diagonal suicide into hazards
-  if (Math.abs(dc) === 1 && dr === dir) {
-    // capture
-    if (destPiece && destPiece.side !== side) return true;
-
-    // suicide into static hazard
-    if (staticAt(state, to)) return true;
-
-    // suicide into flying hazard
-    const hz = flyerAt(state, to);
-    if (hz && hz.alive) return true;
+function postMoveHazardsAndTurnAdvance(
+  state: GameState,
+  simMode: SimMode,
+  destroyedBefore: number,
+  events: GameEvent[]
+): ActionResult {
+  // Move-limit clock: reset if the action destroyed anything
+  state.plySinceCapture = destroyedCount(state) > destroyedBefore ? 0 : state.plySinceCapture + 1;
+
+  // Planet mining pays out at the end of each round, whatever the simMode
+  // (the UI delays the hazard phase, so this must not depend on it)
+  if (state.sideToMove === "B") collectPlanetIncome(state, events);
+
+  // Hazards tick on the rules' cadence (by default once per full round: after Black acts).
+  // simMode === "none": do not tick hazards, do not spawn
+  if (simMode !== "none" && isHazardPly(state.rules, state.ply)) {
+    events.push(...runHazardPhase(state, simMode));
   }
 
+  state.sideToMove = other(state.sideToMove);
+  state.ply += 1;
 
-  return false;
-}
-
-
-function isQueenMoveLegal(state: GameState, from: Square, to: Square): boolean {
-  return isRookMoveLegal(state, from, to) || isBishopMoveLegal(state, from, to);
-}
-
-
-type SimMode = "full" | "tickOnly" | "none";
-
-function postMoveHazardsAndTurnAdvance(state: GameState, moverSide: "W" | "B", simMode: SimMode): void {
-  // Hazards tick once per full round: after Black acts.
-  if (moverSide === "B") {
-  if (simMode === "full") {
-    hazardTick(state);
-    maybeSpawnHazards(state);
-  } else if (simMode === "tickOnly") {
-    hazardTick(state);
-  } else {
-    // simMode === "none": do not tick hazards, do not spawn
-  }
+  return { ok: true, events };
 }
 
-
-  state.sideToMove = other(state.sideToMove);
-  state.ply += 1;
+function illegal(reason: IllegalReason): ActionResult {
+  return { ok: false, reason };
 }
 
 
 
 /**
- * Minimal move applier:
- * - Only rooks have real legality; all other pieces still "teleport".
+ * Move applier:
+ * - Legality comes from pieceDestinations (moveGen.ts); illegal moves are ignored.
  * - Static hazards: landing on them suicides the mover.
+ * - Wormholes: the mover comes out at the paired exit (suicide if a piece blocks it).
  * - Flying hazards: landing on them destroys both immediately.
- * - After each move: hazards spawn+tick, then side changes.
+ * - After each hazard ply (rules.hazards.hazardEveryPlies): hazards tick+spawn, then side changes.
  * - Star heat is enforced at the start of the mover's turn, and heat is marked after a move.
+ * - A pawn that survives onto its far rank promotes to move.promotion (Queen if omitted).
+ * - With rules.kingSafety, moves that leave the mover's own king capturable are rejected.
+ * - Returns { ok, events } on success (captures, impacts, burns, hazard phase...),
+ *   or { ok: false, reason } with the state untouched.
  */
-export function applyMove(state: GameState, move: Move, simMode: SimMode = "full"): void {
+export function applyMove(state: GameState, move: Move, simMode: SimMode = "full"): ActionResult {
 
   // Start-of-turn: resolve burn for heated pieces of this side
     // Star heat rule:
   // If a piece was heated at the start of this side's turn, it must end this turn NOT adjacent to a star,
   // otherwise it burns. So we record who was heated now, and burn them after the move resolves.
-  const overheatedIdsAtTurnStart = new Set(
-    state.pieces.filter(p => p.alive && p.side === state.sideToMove && p.heated).map(p => p.id)
-  );
+  const overheatedIdsAtTurnStart = heatedPieceIds(state, state.sideToMove);
+
 
+  const destroyedBefore = destroyedCount(state);
+  const events: GameEvent[] = [];
 
   const mover = pieceAt(state, move.from);
-  if (!mover || !mover.alive) return;
-  if (mover.side !== state.sideToMove) return;
+  if (!mover || !mover.alive) return illegal("noPiece");
+  if (mover.side !== state.sideToMove) return illegal("notYourTurn");
 
-  if (!inBounds(move.to, state.rows, state.cols)) return;
+  if (!inBounds(move.to, state.rows, state.cols)) return illegal("outOfBounds");
 
-  // Friendly piece on destination blocks
-  const destPiece = pieceAt(state, move.to);
-  if (destPiece && destPiece.side === mover.side) return;
-
-  // Rook legality only (others are teleport)
-  if (mover.type === "R") {
-  if (!isRookMoveLegal(state, move.from, move.to)) return;
-} else if (mover.type === "B") {
-  if (!isBishopMoveLegal(state, move.from, move.to)) return;
-} else if (mover.type === "Q") {
-  if (!isQueenMoveLegal(state, move.from, move.to)) return;
-} else if (mover.type === "P") {
-  if (!isPawnMoveLegal(state, move.from, move.to, mover.side)) return;
-} else if (mover.type === "N") {
-  if (!isKnightMoveLegal(move.from, move.to)) return;
-} else if (mover.type === "K") {
-  if (!isKingMoveLegal(move.from, move.to)) return;
-}
+  // Promotion choice (if given) must be a real promotion piece
+  if (move.promotion && !PROMOTION_TYPES.includes(move.promotion)) return illegal("badPromotion");
 
+  // Piece geometry (shared with the UI highlights and the AI); friendly pieces block
+  if (!pieceDestinations(state, mover).some(sq => sameSq(sq, move.to))) return illegal("illegalMove");
 
+  // Optional rule: you may not leave your own king capturable
+  if (state.rules.kingSafety && leavesOwnKingExposed(state, sim => applyMove(sim, move, "none"))) {
+    return illegal("leavesKingInCheck");
+  }
 
+  const destPiece = pieceAt(state, move.to);
+  events.push({ kind: "move", pieceId: mover.id, from: { ...move.from }, to: { ...move.to } });
 
   // Landing on a flying hazard => impact destroys both; move consumed
     const destHz = flyerAt(state, move.to);
@@ -251,18 +159,19 @@ export function applyMove(state: GameState, move: Move, simMode: SimMode = "full
 
       destHz.alive = false;
       state.flyers = state.flyers.filter(h => h.alive);
+      events.push({ kind: "cometImpact", pieceId: mover.id, hazardId: destHz.id, sq: { ...move.to } });
 
-      burnOverheatedPiecesIfStillAdjacentToStar(state, mover.side, overheatedIdsAtTurnStart);
-      postMoveHazardsAndTurnAdvance(state, mover.side, simMode);
-      return;
+      burnHeatedPieces(state, mover.side, overheatedIdsAtTurnStart, events);
+      return postMoveHazardsAndTurnAdvance(state, simMode, destroyedBefore, events);
     } else {
-      // Asteroid: collect (+1 manufacturing), asteroid disappears, mover survives
+      // Asteroid: collect (manufacturing), asteroid disappears, mover survives
       mover.pos = { ...move.to };
 
       destHz.alive = false;
       state.flyers = state.flyers.filter(h => h.alive);
 
-      state.manufacturing[mover.side] += 1;
+      state.manufacturing[mover.side] += state.rules.economy.asteroidValue;
+      events.push({ kind: "asteroidCollected", side: mover.side, pieceId: mover.id, hazardId: destHz.id, sq: { ...move.to } });
 
       // Continue with normal move resolution (captures etc.) below
     }
@@ -273,95 +182,144 @@ export function applyMove(state: GameState, move: Move, simMode: SimMode = "full
   // Capture enemy on destination (if present)
   if (destPiece && destPiece.side !== mover.side) {
     destPiece.alive = false;
+    events.push({ kind: "capture", pieceId: mover.id, victimId: destPiece.id, sq: { ...move.to } });
   }
 
-  // Landing on static hazard => suicidal move (mover dies, doesn't occupy the square)
-  if (staticAt(state, move.to)) {
+  // Wormhole: come out at the paired exit, unless a piece already stands there
+  let landing: Square = { ...move.to };
+  const destStatic = staticAt(state, move.to);
+  const exit = destStatic ? wormholeExit(state, destStatic) : undefined;
+  const exitBlocker = exit ? pieceAt(state, exit.pos) : undefined;
+  if (exit && (!exitBlocker || exitBlocker === mover)) {
+    landing = { ...exit.pos };
+    events.push({ kind: "wormholeTransit", target: "piece", id: mover.id, from: { ...move.to }, to: { ...landing } });
+
+    // Whatever is flying over the exit meets the piece there
+    const exitHz = flyerAt(state, landing);
+    if (exitHz && exitHz.kind === "comet") {
+      mover.pos = { ...landing };
+      mover.alive = false;
+      exitHz.alive = false;
+      state.flyers = state.flyers.filter(h => h.alive);
+      events.push({ kind: "cometImpact", pieceId: mover.id, hazardId: exitHz.id, sq: { ...landing } });
+      burnHeatedPieces(state, mover.side, overheatedIdsAtTurnStart, events);
+      return postMoveHazardsAndTurnAdvance(state, simMode, destroyedBefore, events);
+    } else if (exitHz) {
+      exitHz.alive = false;
+      state.flyers = state.flyers.filter(h => h.alive);
+      state.manufacturing[mover.side] += state.rules.economy.asteroidValue;
+      events.push({ kind: "asteroidCollected", side: mover.side, pieceId: mover.id, hazardId: exitHz.id, sq: { ...landing } });
+    }
+  } else if (destStatic) {
+    // Landing on static hazard (or a wormhole with a blocked exit) => suicidal move
+    // (mover dies, doesn't occupy the square)
   mover.pos = { ...move.to };
   mover.alive = false;
-  burnOverheatedPiecesIfStillAdjacentToStar(state, mover.side, overheatedIdsAtTurnStart);
-  postMoveHazardsAndTurnAdvance(state, mover.side, simMode);
-  return;
+  events.push({ kind: "suicide", pieceId: mover.id, into: destStatic.kind, sq: { ...move.to } });
+  burnHeatedPieces(state, mover.side, overheatedIdsAtTurnStart, events);
+  return postMoveHazardsAndTurnAdvance(state, simMode, destroyedBefore, events);
 }
 
 
-  // Normal move
-  mover.pos = { ...move.to };
+  // Normal move (or out of a wormhole)
+  mover.pos = landing;
+
+  // Promotion: a pawn that survives onto its far rank (directly or out of a wormhole) becomes the
+  // chosen piece (Queen by default); move generation offers the same choices
+  if (mover.type === "P" && mover.pos.r === promotionRowFor(state, mover.side)) {
+    mover.type = move.promotion ?? "Q";
+    events.push({ kind: "promotion", pieceId: mover.id, type: mover.type, sq: { ...mover.pos } });
+  }
 
   // Mark heat for mover's side after move (any of their pieces adjacent become heated)
   markHeatAfterMove(state, state.sideToMove);
-  burnOverheatedPiecesIfStillAdjacentToStar(state, mover.side, overheatedIdsAtTurnStart);
+  burnHeatedPieces(state, mover.side, overheatedIdsAtTurnStart, events);
 
 
- postMoveHazardsAndTurnAdvance(state, mover.side,simMode);
+ return postMoveHazardsAndTurnAdvance(state, simMode, destroyedBefore, events);
 }
 
-export function mkMove(from: Square, to: Square): Move {
-  return { from, to };
+export function mkMove(from: Square, to: Square, promotion?: PieceType): Move {
+  return promotion ? { from, to, promotion } : { from, to };
 }
 
 /**
  * Deploy a new ship, consuming the turn.
  * Rules (v0):
+ * - Only ships with a deploy cost (rules.economy.deployCosts) can be built, at that cost
+ * - Must deploy inside the side's deploy zone (rules.economy.deployZone)
  * - Must deploy on an empty square
  * - Cannot deploy onto static hazards
  * - Cannot deploy onto any flying object (comet/asteroid)
  * - Spends manufacturing points
  * - Counts as the mover's action for star burn enforcement + heat marking
  * - Advances turn in the same way as a normal move (including hazard tick after Black)
+ * - Returns the ordered events, or why the deploy was refused
  */
 export function applyDeploy(
   state: GameState,
   to: Square,
-  type: PieceType,
-  cost: number,
+  type: DeployType,
   simMode: SimMode = "full"
-): void {
-
+): ActionResult {
+  // Kings (or anything else without a listed cost) can't be built
+  if (!Object.hasOwn(state.rules.economy.deployCosts, type)) return illegal("badShipType");
+  const cost = state.rules.economy.deployCosts[type];
 
   const side = state.sideToMove;
 
   // Record who was heated at turn start (same logic as applyMove)
-  const overheatedIdsAtTurnStart = new Set(
-    state.pieces.filter(p => p.alive && p.side === side && p.heated).map(p => p.id)
-  );
+  const overheatedIdsAtTurnStart = heatedPieceIds(state, side);
+
+  const destroyedBefore = destroyedCount(state);
+  const events: GameEvent[] = [];
 
   // Basic resource check
-  if (state.manufacturing[side] < cost) return;
+  if (state.manufacturing[side] < cost) return illegal("cannotAfford");
 
   // Must be in bounds
-  if (!inBounds(to, state.rows, state.cols)) return;
+  if (!inBounds(to, state.rows, state.cols)) return illegal("outOfBounds");
+
+  // Must be inside the deploy zone
+  if (!inDeployZone(state, side, to)) return illegal("outsideDeployZone");
 
   // Must be empty of pieces
-  if (pieceAt(state, to)) return;
+  if (pieceAt(state, to)) return illegal("squareOccupied");
 
   // Must not be a static hazard
-  if (staticAt(state, to)) return;
+  if (staticAt(state, to)) return illegal("squareOccupied");
 
   // Must not be a flying object (comet or asteroid)
   const hz = flyerAt(state, to);
-  if (hz && hz.alive) return;
+  if (hz && hz.alive) return illegal("squareOccupied");
+
+  // Optional rule: deploying must not leave your own king capturable
+  if (state.rules.kingSafety && leavesOwnKingExposed(state, sim => applyDeploy(sim, to, type, "none"))) {
+    return illegal("leavesKingInCheck");
+  }
 
   // Spend
   state.manufacturing[side] -= cost;
 
   // Create piece
+  const id = nextDeployedPieceId(state.ids, side, type);
   state.pieces.push({
-    id: newDeployedPieceId(side, type),
+    id,
     side,
     type,
     pos: { ...to },
     alive: true,
     heated: false,
   });
+  events.push({ kind: "deploy", pieceId: id, side, type, sq: { ...to } });
 
   // Heat marking after "action" (same as applyMove’s normal path)
   markHeatAfterMove(state, side);
 
-  // Burn any pieces that were heated at start and ended still adjacent to star
-  burnOverheatedPiecesIfStillAdjacentToStar(state, side, overheatedIdsAtTurnStart);
+  // Burn any pieces that were heated at start and ended still next to a star
+  burnHeatedPieces(state, side, overheatedIdsAtTurnStart, events);
 
   // Finish the turn exactly like a move does
-  postMoveHazardsAndTurnAdvance(state, side, simMode);
+  return postMoveHazardsAndTurnAdvance(state, simMode, destroyedBefore, events);
 }
 
@@ -0,0 +1,84 @@
+import type { GameState, Square, Side } from "./types";
+import { inBounds } from "./geom";
+import { pieceAt, staticAt, flyerAt, nebulaAt } from "./indexes";
+
+const ROOK_DIRS = [
+  { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
+];
+const BISHOP_DIRS = [
+  { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
+];
+const KNIGHT_DELTAS = [
+  { dr: -2, dc: -1 }, { dr: -2, dc: 1 },
+  { dr: -1, dc: -2 }, { dr: -1, dc: 2 },
+  { dr: 1, dc: -2 },  { dr: 1, dc: 2 },
+  { dr: 2, dc: -1 },  { dr: 2, dc: 1 },
+];
+
+export function sqKey(s: Square): string {
+  return `${s.r},${s.c}`;
+}
+
+/**
+ * Attack map: every square the attacker's pieces could capture on next move.
+ * - Sliders see along rays until the first piece, static, flyer or nebula (that square included)
+ * - Pawns attack their two forward diagonals only (forward pushes never capture)
+ * - Knights and kings attack their usual jump/adjacent squares
+ * Returned as a set of "r,c" keys.
+ */
+export function attackMap(state: GameState, attacker: Side): Set<string> {
+  const out = new Set<string>();
+
+  function ray(from: Square, dirs: Array<{ dr: number; dc: number }>) {
+    for (const d of dirs) {
+      let sq = { r: from.r + d.dr, c: from.c + d.dc };
+      while (inBounds(sq, state.rows, state.cols)) {
+        out.add(sqKey(sq));
+        if (pieceAt(state, sq) || staticAt(state, sq) || flyerAt(state, sq) || nebulaAt(state, sq)) break;
+        sq = { r: sq.r + d.dr, c: sq.c + d.dc };
+      }
+    }
+  }
+
+  function jumps(from: Square, deltas: Array<{ dr: number; dc: number }>) {
+    for (const d of deltas) {
+      const sq = { r: from.r + d.dr, c: from.c + d.dc };
+      if (inBounds(sq, state.rows, state.cols)) out.add(sqKey(sq));
+    }
+  }
+
+  for (const p of state.pieces) {
+    if (!p.alive) continue;
+    if (p.side !== attacker) continue;
+
+    switch (p.type) {
+      case "R": ray(p.pos, ROOK_DIRS); break;
+      case "B": ray(p.pos, BISHOP_DIRS); break;
+      case "Q": ray(p.pos, [...ROOK_DIRS, ...BISHOP_DIRS]); break;
+      case "N": jumps(p.pos, KNIGHT_DELTAS); break;
+      case "K": jumps(p.pos, [...ROOK_DIRS, ...BISHOP_DIRS]); break;
+      case "P": {
+        const dir = attacker === "W" ? -1 : 1;
+        jumps(p.pos, [{ dr: dir, dc: -1 }, { dr: dir, dc: 1 }]);
+        break;
+      }
+    }
+  }
+
+  return out;
+}
+
+export function isSquareAttacked(state: GameState, sq: Square, attacker: Side): boolean {
+  return attackMap(state, attacker).has(sqKey(sq));
+}
+
+export function kingSquare(state: GameState, side: Side): Square | undefined {
+  return state.pieces.find(p => p.alive && p.side === side && p.type === "K")?.pos;
+}
+
+/** True if side's king stands on a square the enemy pieces attack. */
+export function isInCheck(state: GameState, side: Side): boolean {
+  const k = kingSquare(state, side);
+  if (!k) return false;
+  return isSquareAttacked(state, k, side === "W" ? "B" : "W");
+}
@@ -0,0 +1,90 @@
+import type { GameState, Square, StaticHazard, GameEvent, Piece, FlyingHazard } from "./types";
+import { sameSq } from "./geom";
+import { pieceAt, staticAt, flyerAt } from "./indexes";
+
+/**
+ * Black holes:
+ * - Static, like planets: moving or flying onto one destroys the mover.
+ * - Every hazard tick, pieces and flyers within rules.hazards.blackHoleRadius
+ *   (king-move distance) are pulled one square (diagonals allowed) toward the nearest hole.
+ *   Short boards cap the radius (see blackHolePullRadius) so no pawn rank starts in range.
+ * - Anything pulled onto the hole is destroyed.
+ * - A pull into a square holding anything else (piece, flyer, other static) is blocked.
+ * - Nearer objects are pulled first, so things queued up behind them follow in.
+ */
+
+/**
+ * Pull radius actually in force: rules.hazards.blackHoleRadius, capped so a hole on the central
+ * ranks stays out of reach of both pawn ranks (radius 1 on 8 rows).
+ */
+export function blackHolePullRadius(state: Pick<GameState, "rows" | "rules">): number {
+  return Math.min(state.rules.hazards.blackHoleRadius, Math.max(0, Math.floor((state.rows - 5) / 2)));
+}
+
+function kingDist(a: Square, b: Square): number {
+  return Math.max(Math.abs(a.r - b.r), Math.abs(a.c - b.c));
+}
+
+// Nearest hole whose pull reaches `sq` (null when out of range, or standing on the hole itself)
+function pullingHole(state: GameState, sq: Square): StaticHazard | null {
+  const radius = blackHolePullRadius(state);
+  let best: StaticHazard | null = null;
+  for (const h of state.statics) {
+    if (h.kind !== "blackhole") continue;
+    const d = kingDist(h.pos, sq);
+    if (d === 0 || d > radius) continue;
+    if (!best || d < kingDist(best.pos, sq)) best = h;
+  }
+  return best;
+}
+
+/** Square a black hole drags `sq` toward next tick, or null if no hole reaches it. */
+export function pullTarget(state: GameState, sq: Square): Square | null {
+  const hole = pullingHole(state, sq);
+  if (!hole) return null;
+  return { r: sq.r + Math.sign(hole.pos.r - sq.r), c: sq.c + Math.sign(hole.pos.c - sq.c) };
+}
+
+/** True if whatever stands on `sq` gets pulled into a black hole on the next tick. */
+export function willBeSwallowed(state: GameState, sq: Square): boolean {
+  const to = pullTarget(state, sq);
+  return !!to && staticAt(state, to)?.kind === "blackhole";
+}
+
+/**
+ * Pull everything in range one square toward its hole.
+ * Events (pulls, swallows) are appended to `events`.
+ */
+export function applyBlackHolePull(state: GameState, events: GameEvent[]): void {
+  if (!state.statics.some(h => h.kind === "blackhole")) return;
+
+  type Pulled = { target: "piece" | "flyer"; obj: Piece | FlyingHazard; hole: StaticHazard };
+  const pulled: Pulled[] = [];
+  for (const p of state.pieces) {
+    const hole = p.alive ? pullingHole(state, p.pos) : null;
+    if (hole) pulled.push({ target: "piece", obj: p, hole });
+  }
+  for (const f of state.flyers) {
+    const hole = f.alive ? pullingHole(state, f.pos) : null;
+    if (hole) pulled.push({ target: "flyer", obj: f, hole });
+  }
+  pulled.sort((a, b) => kingDist(a.obj.pos, a.hole.pos) - kingDist(b.obj.pos, b.hole.pos));
+
+  for (const { target, obj, hole } of pulled) {
+    if (!obj.alive) continue;
+
+    const from = { ...obj.pos };
+    const to = { r: from.r + Math.sign(hole.pos.r - from.r), c: from.c + Math.sign(hole.pos.c - from.c) };
+
+    if (sameSq(to, hole.pos)) {
+      obj.alive = false;
+      events.push({ kind: "swallowed", target, id: obj.id, sq: { ...to } });
+      continue;
+    }
+
+    if (pieceAt(state, to) || staticAt(state, to) || flyerAt(state, to)) continue;
+
+    obj.pos = to;
+    events.push({ kind: "gravityPull", target, id: obj.id, from, to: { ...to } });
+  }
+}
@@ -0,0 +1,20 @@
+import type { GameState } from "./types";
+import { isInCheck } from "./attacks";
+import { generateLegalActions } from "./legalActions";
+
+// "check" / "checkmate" only occur with rules.kingSafety; no legal action otherwise is stalemate
+export type SideStatus = "ok" | "check" | "checkmate" | "stalemate";
+
+/** Does the side to move have at least one legal move or deploy? */
+export function hasLegalAction(state: GameState): boolean {
+  return generateLegalActions(state, state.sideToMove).length > 0;
+}
+
+/** Check / checkmate / stalemate for the side to move. */
+export function sideToMoveStatus(state: GameState): SideStatus {
+  const inCheck = state.rules.kingSafety && isInCheck(state, state.sideToMove);
+  const canAct = hasLegalAction(state);
+
+  if (canAct) return inCheck ? "check" : "ok";
+  return inCheck ? "checkmate" : "stalemate";
+}
@@ -0,0 +1,52 @@
+import type { GameState } from "./types";
+
+// Deep copy for simulations (AI lookahead, legality probes)
+export function cloneState(s: GameState): GameState {
+  return {
+    rows: s.rows,
+    cols: s.cols,
+    sideToMove: s.sideToMove,
+    ply: s.ply,
+    hazardTicks: s.hazardTicks,
+    plySinceCapture: s.plySinceCapture,
+    rngSeed: s.rngSeed,
+    manufacturing: { W: s.manufacturing.W, B: s.manufacturing.B },
+    rules: { ...s.rules },
+    ids: { ...s.ids },
+
+    pieces: s.pieces.map(p => ({
+      id: p.id,
+      side: p.side,
+      type: p.type,
+      pos: { r: p.pos.r, c: p.pos.c },
+      alive: p.alive,
+      heated: p.heated,
+    })),
+
+    statics: s.statics.map(h => ({
+      kind: h.kind,
+      pos: { r: h.pos.r, c: h.pos.c },
+      ...(h.pair !== undefined ? { pair: h.pair } : {}),
+      ...(h.orbit ? { orbit: { center: { ...h.orbit.center }, radius: h.orbit.radius, phase: h.orbit.phase } } : {}),
+    })),
+
+    flyers: s.flyers.map(hz => ({
+      id: hz.id,
+      kind: hz.kind,
+      pos: { r: hz.pos.r, c: hz.pos.c },
+      dir: hz.dir,
+      speed: hz.speed,
+      alive: hz.alive,
+      ...(hz.lingering ? { lingering: true } : {}),
+    })),
+
+    pendingSpawns: s.pendingSpawns.map(sp => ({
+      kind: sp.kind,
+      pos: { r: sp.pos.r, c: sp.pos.c },
+      dir: sp.dir,
+      speed: sp.speed,
+    })),
+
+    nebulae: s.nebulae.map(n => ({ r: n.r, c: n.c })),
+  };
+}
@@ -0,0 +1,30 @@
+import type { GameState, Side, Square } from "./types";
+import { isAdjacent8 } from "./geom";
+import { kingSquare } from "./attacks";
+import { heldPlanets } from "./mining";
+
+/**
+ * Where a side may deploy new ships (rules.economy.deployZone):
+ * - "homeRank": its own back rank (rank 1 for White, the top rank for Black)
+ * - "firstTwoRanks": its back rank and the rank in front of it
+ * - "nearKing": squares 8-adjacent to its king
+ * - "nearPlanet": squares 8-adjacent to a planet it controls (see mining.ts)
+ * Emptiness of the square is checked separately by applyDeploy.
+ */
+export function inDeployZone(state: GameState, side: Side, sq: Square): boolean {
+  const home = side === "W" ? state.rows - 1 : 0;
+  const forward = side === "W" ? -1 : 1;
+
+  switch (state.rules.economy.deployZone) {
+    case "homeRank":
+      return sq.r === home;
+    case "firstTwoRanks":
+      return sq.r === home || sq.r === home + forward;
+    case "nearKing": {
+      const k = kingSquare(state, side);
+      return !!k && isAdjacent8(sq, k);
+    }
+    case "nearPlanet":
+      return heldPlanets(state, side).some(planet => isAdjacent8(sq, planet));
+  }
+}
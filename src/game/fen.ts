@@ -0,0 +1,235 @@
+import type {
+  GameState, Piece, StaticHazard, StaticHazardType, FlyingHazard, FlyingHazardKind,
+  PendingSpawn, HazardDir, PieceType, RulesConfig, Square,
+} from "./types";
+import { squareName, parseSquareName } from "./geom";
+import { RULES_PRESETS } from "./rules";
+
+/**
+ * Position text (FEN-style): one line of space-separated fields, lists comma-separated ("-" when empty).
+ *
+ *   10x20 W 12 3 5 2/0 2654435769 34/12 <pieces> <statics> <flyers> <pending> <nebulae> <rules>
+ *
+ * - board rows x cols, side to move, ply, plySinceCapture, hazardTicks,
+ *   manufacturing W/B, rngSeed, id counters piece/hazard
+ * - pieces (alive ones, in state order): side, type @ square # id, "!" if heated: WK@E1#p5, BN@F8#p20!
+ * - statics: P planet, S star, H black hole, W wormhole @ square, "=pair" for wormholes,
+ *   "~center/radius/phase" for orbiting planets: W@G4=0, P@F5~J6/2/3
+ * - flyers: C comet or A asteroid @ square > dir speed # id, "~" if lingering: C@A5>E1#hz3
+ * - pending spawns: like flyers without the id: A@D10>S1
+ * - nebulae: squares
+ * - rules: a preset name if the rules are exactly that preset (on this board), else JSON
+ *
+ * Squares are algebraic (file letters + rank, rank 1 at the bottom).
+ * parseFen(formatFen(s)) plays out exactly like s, and formats back to the same text.
+ */
+
+const STATIC_LETTERS: Record<StaticHazardType, string> = { planet: "P", star: "S", blackhole: "H", wormhole: "W" };
+const FLYER_LETTERS: Record<FlyingHazardKind, string> = { comet: "C", asteroid: "A" };
+
+function letterKind<K extends string>(letters: Record<K, string>, letter: string): K {
+  return (Object.keys(letters) as K[]).find(k => letters[k] === letter)!;
+}
+
+// JSON with object keys sorted, so rules compare equal however they were built
+function canonicalJson(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonicalJson).join(",")}]`;
+  if (v && typeof v === "object") {
+    const o = v as Record<string, unknown>;
+    return `{${Object.keys(o).sort().map(k => `${JSON.stringify(k)}:${canonicalJson(o[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v);
+}
+
+/** Rules as text: a preset name if they are exactly that preset (on this board), else JSON. */
+export function formatRules(rules: RulesConfig): string {
+  for (const [name, preset] of Object.entries(RULES_PRESETS)) {
+    if (canonicalJson({ ...preset, board: rules.board }) === canonicalJson(rules)) return name;
+  }
+  return JSON.stringify(rules);
+}
+
+function list(items: string[]): string {
+  return items.length ? items.join(",") : "-";
+}
+
+export function formatFen(state: GameState): string {
+  const sq = (s: Square) => squareName(s, state.rows);
+
+  const pieces = state.pieces
+    .filter(p => p.alive)
+    .map(p => `${p.side}${p.type}@${sq(p.pos)}#${p.id}${p.heated ? "!" : ""}`);
+
+  const statics = state.statics.map(h =>
+    `${STATIC_LETTERS[h.kind]}@${sq(h.pos)}` +
+    (h.pair !== undefined ? `=${h.pair}` : "") +
+    (h.orbit ? `~${sq(h.orbit.center)}/${h.orbit.radius}/${h.orbit.phase}` : ""));
+
+  const flyers = state.flyers
+    .filter(hz => hz.alive)
+    .map(hz => `${FLYER_LETTERS[hz.kind]}@${sq(hz.pos)}>${hz.dir}${hz.speed}#${hz.id}${hz.lingering ? "~" : ""}`);
+
+  const pending = state.pendingSpawns.map(sp => `${FLYER_LETTERS[sp.kind]}@${sq(sp.pos)}>${sp.dir}${sp.speed}`);
+
+  return [
+    `${state.rows}x${state.cols}`,
+    state.sideToMove,
+    state.ply,
+    state.plySinceCapture,
+    state.hazardTicks,
+    `${state.manufacturing.W}/${state.manufacturing.B}`,
+    state.rngSeed,
+    `${state.ids.piece}/${state.ids.hazard}`,
+    list(pieces),
+    list(statics),
+    list(flyers),
+    list(pending),
+    list(state.nebulae.map(sq)),
+    formatRules(state.rules),
+  ].join(" ");
+}
+
+// --- Parsing ---
+
+const FIELD_COUNT = 14;
+const PIECE_RE = /^([WB])([KQRBNP])@([A-Z]+\d+)#([^!]+)(!)?$/;
+const STATIC_RE = /^([PSHW])@([A-Z]+\d+)(?:=(\d+))?(?:~([A-Z]+\d+)\/(\d+)\/(\d+))?$/;
+const FLYER_RE = /^([CA])@([A-Z]+\d+)>(NE|NW|SE|SW|N|S|E|W)(\d+)(?:#([^~]+)(~)?)?$/;
+
+function bad(what: string, text: string): never {
+  throw new Error(`Bad position ${what}: "${text}"`);
+}
+
+function int(text: string, what: string): number {
+  if (!/^\d+$/.test(text)) bad(what, text);
+  return Number(text);
+}
+
+function pair(text: string, what: string): [number, number] {
+  const m = /^(\d+)\/(\d+)$/.exec(text);
+  if (!m) bad(what, text);
+  return [Number(m[1]), Number(m[2])];
+}
+
+function items(text: string): string[] {
+  return text === "-" ? [] : text.split(",");
+}
+
+/** Inverse of formatRules; rules missing from the JSON (e.g. written before a rule existed) fall back to classic. */
+export function parseRules(text: string, board: RulesConfig["board"]): RulesConfig {
+  if (Object.hasOwn(RULES_PRESETS, text)) {
+    return { ...RULES_PRESETS[text as keyof typeof RULES_PRESETS], board };
+  }
+
+  let raw: Partial<RulesConfig>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    bad("rules", text);
+  }
+  if (!raw || typeof raw !== "object") bad("rules", text);
+
+  const base = RULES_PRESETS.classic;
+  return {
+    ...base,
+    ...raw,
+    board,
+    setup: { ...base.setup, ...raw.setup },
+    hazards: { ...base.hazards, ...raw.hazards },
+    economy: {
+      ...base.economy,
+      ...raw.economy,
+      deployCosts: { ...base.economy.deployCosts, ...raw.economy?.deployCosts },
+    },
+  };
+}
+
+/** Rebuild a GameState from formatFen text; throws an Error naming the first bad field. */
+export function parseFen(text: string): GameState {
+  const trimmed = text.trim();
+
+  // The rules JSON comes last and is allowed to contain spaces
+  const fields: string[] = [];
+  let rest = trimmed;
+  while (fields.length < FIELD_COUNT - 1) {
+    const m = /^(\S+)\s+/.exec(rest);
+    if (!m) bad("(too few fields)", trimmed);
+    fields.push(m[1]);
+    rest = rest.slice(m[0].length);
+  }
+  fields.push(rest);
+
+  const [dims, side, ply, sinceCapture, ticks, mfg, seed, ids, pieceText, staticText, flyerText, pendingText, nebulaText, rulesText] = fields;
+
+  const dm = /^(\d+)x(\d+)$/.exec(dims);
+  if (!dm) bad("board size", dims);
+  const rows = Number(dm[1]);
+  const cols = Number(dm[2]);
+
+  if (side !== "W" && side !== "B") bad("side to move", side);
+
+  const sq = (t: string) => parseSquareName(t, rows, cols) ?? bad("square", t);
+
+  const pieces: Piece[] = items(pieceText).map(t => {
+    const m = PIECE_RE.exec(t) ?? bad("piece", t);
+    return {
+      id: m[4],
+      side: m[1] as Piece["side"],
+      type: m[2] as PieceType,
+      pos: sq(m[3]),
+      alive: true,
+      heated: !!m[5],
+    };
+  });
+
+  const statics: StaticHazard[] = items(staticText).map(t => {
+    const m = STATIC_RE.exec(t) ?? bad("static", t);
+    return {
+      kind: letterKind(STATIC_LETTERS, m[1]),
+      pos: sq(m[2]),
+      ...(m[3] !== undefined ? { pair: Number(m[3]) } : {}),
+      ...(m[4] !== undefined ? { orbit: { center: sq(m[4]), radius: Number(m[5]), phase: Number(m[6]) } } : {}),
+    };
+  });
+
+  const flyers: FlyingHazard[] = items(flyerText).map(t => {
+    const m = FLYER_RE.exec(t);
+    if (!m || m[5] === undefined) bad("flyer", t);
+    return {
+      id: m[5],
+      kind: letterKind(FLYER_LETTERS, m[1]),
+      pos: sq(m[2]),
+      dir: m[3] as HazardDir,
+      speed: int(m[4], "flyer speed"),
+      alive: true,
+      ...(m[6] ? { lingering: true } : {}),
+    };
+  });
+
+  const pendingSpawns: PendingSpawn[] = items(pendingText).map(t => {
+    const m = FLYER_RE.exec(t);
+    if (!m || m[5] !== undefined) bad("pending spawn", t);
+    return { kind: letterKind(FLYER_LETTERS, m[1]), pos: sq(m[2]), dir: m[3] as HazardDir, speed: int(m[4], "spawn speed") };
+  });
+
+  const [mfgW, mfgB] = pair(mfg, "manufacturing");
+  const [pieceId, hazardId] = pair(ids, "id counters");
+
+  return {
+    rows,
+    cols,
+    sideToMove: side,
+    ply: int(ply, "ply"),
+    plySinceCapture: int(sinceCapture, "plySinceCapture"),
+    pieces,
+    statics,
+    flyers,
+    pendingSpawns,
+    nebulae: items(nebulaText).map(sq),
+    hazardTicks: int(ticks, "hazardTicks"),
+    manufacturing: { W: mfgW, B: mfgB },
+    rngSeed: int(seed, "rngSeed") >>> 0,
+    rules: parseRules(rulesText, { rows, cols }),
+    ids: { piece: pieceId, hazard: hazardId },
+  };
+}
@@ -13,3 +13,38 @@ export function isAdjacent8(a: Square, b: Square): boolean {
   const dc = Math.abs(a.c - b.c);
   return (dr <= 1 && dc <= 1) && !(dr === 0 && dc === 0);
 }
+
+// Leftmost file of a formation `width` files wide, centered on the board (G on 20 files)
+export function formationStartFile(cols: number, width: number): number {
+  return Math.floor((cols - width) / 2);
+}
+
+// File letters: A..Z, then AA, AB, ... for boards wider than 26 files
+export function fileName(c: number): string {
+  let s = "";
+  for (let n = c + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  }
+  return s;
+}
+
+// Inverse of fileName ("A" => 0, "AA" => 26); -1 if it isn't a file name
+export function fileIndex(name: string): number {
+  if (!/^[A-Z]+$/.test(name)) return -1;
+  let n = 0;
+  for (const ch of name) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+// Algebraic square name: file letters + rank (rank 1 is White's home row, at the bottom)
+export function squareName(sq: Square, rows: number): string {
+  return `${fileName(sq.c)}${rows - sq.r}`;
+}
+
+// Inverse of squareName; null if the text isn't a square on this board
+export function parseSquareName(text: string, rows: number, cols: number): Square | null {
+  const m = /^([A-Z]+)([1-9]\d*)$/.exec(text);
+  if (!m) return null;
+  const sq = { r: rows - Number(m[2]), c: fileIndex(m[1]) };
+  return inBounds(sq, rows, cols) ? sq : null;
+}
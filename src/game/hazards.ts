@@ -1,14 +1,21 @@
-import type { GameState, FlyingHazard, HazardDir, Square } from "./types";
-import { inBounds } from "./geom";
-import { pieceAt, staticAt } from "./indexes";
+import type { GameState, FlyingHazard, HazardDir, Square, GameEvent, Piece, PendingSpawn } from "./types";
+import { inBounds, sameSq, formationStartFile } from "./geom";
+import { pieceAt, staticAt, flyerAt, nebulaAt } from "./indexes";
 import { mulberry32, randInt } from "./rng";
+import { nextHazardId } from "./ids";
+import { applyBlackHolePull } from "./blackHoles";
+import { wormholeExitSquare } from "./wormholes";
 
-function stepForDir(dir: HazardDir): { dr: number; dc: number } {
+export function stepForDir(dir: HazardDir): { dr: number; dc: number } {
   switch (dir) {
     case "E": return { dr: 0, dc: 1 };
     case "W": return { dr: 0, dc: -1 };
     case "N": return { dr: -1, dc: 0 };
     case "S": return { dr: 1, dc: 0 };
+    case "NE": return { dr: -1, dc: 1 };
+    case "NW": return { dr: -1, dc: -1 };
+    case "SE": return { dr: 1, dc: 1 };
+    case "SW": return { dr: 1, dc: -1 };
   }
 }
 
@@ -17,12 +24,6 @@ function nextSquare(pos: Square, dir: HazardDir): Square {
   return { r: pos.r + dr, c: pos.c + dc };
 }
 
-let hazardCounter = 0;
-function newHazardId() {
-  hazardCounter += 1;
-  return `hz${hazardCounter}`;
-}
-
 /**
  * Spawn rules:
  * - Horizontal COMETS only:
@@ -31,38 +32,89 @@ function newHazardId() {
  *   - dir is E (from A) or W (from T)
  *
  * - Vertical flyers (COMETS + ASTEROIDS):
- *   - spawn at row 1 or 10 (0 or rows-1)
- *   - spawn in edge bands: A–D and Q–T (tweakable via EDGE_BAND_DEPTH)
+ *   - spawn at the top or bottom row (0 or rows-1)
+ *   - spawn in edge bands: A–D and Q–T on 10x20 (rules.hazards.edgeBandDepth), narrowed to the
+ *     files outside the starting formation (A–B and K–L on 12x12)
+ *   - if no file is free, they spawn on any file just past the pawn ranks instead
  *   - dir is S (from top) or N (from bottom)
+ *
+ * - Diagonal COMETS:
+ *   - spawn at column A or T on a random belt row, like horizontal ones
+ *   - dir is NE/SE (from A) or NW/SW (from T)
+ *
+ * - Any comet may be fast (rules.hazards.fastCometChance): it moves fastCometSpeed squares per tick.
+ *   Asteroids always drift at speed 1.
+ *
+ * Belt rows and spawn chances come from state.rules.hazards.
+ * Spawns are decided one hazard phase ahead (state.pendingSpawns) and drawn as warnings.
  */
 
-// Vertical flyer spawn band depth:
-// 4 => A–D and (for 20 cols) Q–T
-// 5 => A–E and (for 20 cols) P–T
-const EDGE_BAND_DEPTH = 4;
+function pickCometSpeed(state: GameState, rng: () => number): number {
+  return rng() < state.rules.hazards.fastCometChance ? state.rules.hazards.fastCometSpeed : 1;
+}
+
+// Outer files on each side that the starting formation leaves free, up to edgeBandDepth
+function edgeBandDepth(state: GameState): number {
+  const free = formationStartFile(state.cols, state.rules.setup.backRank.length);
+  return Math.max(0, Math.min(state.rules.hazards.edgeBandDepth, free, Math.floor(state.cols / 2)));
+}
+
+// Where a vertical flyer enters: an edge band on the top/bottom row, heading S/N.
+// Bands never reach the home files, so nothing spawns onto a starting piece.
+function pickVerticalSpawn(state: GameState, rng: () => number): Pick<PendingSpawn, "pos" | "dir"> {
+  const d = edgeBandDepth(state);
+  if (d === 0) {
+    // No free files: any file, on the first rank past the pawns
+    const c = randInt(rng, 0, state.cols - 1);
+    const fromTop = rng() < 0.5;
+    const inset = Math.min(2, Math.floor((state.rows - 1) / 2));
+    return { pos: { r: fromTop ? inset : state.rows - 1 - inset, c }, dir: fromTop ? "S" : "N" };
+  }
 
-function pickEdgeBandColumn(state: GameState, rng: () => number): number {
-  const d = Math.max(1, Math.min(EDGE_BAND_DEPTH, Math.floor(state.cols / 2)));
   const off = randInt(rng, 0, d - 1);
   const fromLeft = rng() < 0.5;
-  return fromLeft ? off : (state.cols - d + off);
+  const c = fromLeft ? off : (state.cols - d + off);
+  const fromTop = rng() < 0.5;
+  return { pos: { r: fromTop ? 0 : state.rows - 1, c }, dir: fromTop ? "S" : "N" };
+}
+
+// A flyer spawning onto another flyer collides with it (same rules as in hazardTick)
+function resolveSpawnOnFlyer(state: GameState, hz: FlyingHazard, events: GameEvent[]): void {
+  const other = flyerAt(state, hz.pos);
+  if (!other) return;
+
+  const destroyed =
+    hz.kind === "comet" && other.kind === "asteroid" ? [other] :
+    hz.kind === "asteroid" && other.kind === "comet" ? [hz] :
+    [hz, other];
+
+  for (const d of destroyed) {
+    const by = d === hz ? other : hz;
+    d.alive = false;
+    events.push({
+      kind: "hazardCollision", hazardId: d.id, hazard: d.kind, byHazardId: by.id,
+      from: { ...d.pos }, to: { ...d.pos }, midway: false,
+    });
+  }
 }
 
-export function maybeSpawnHazards(state: GameState): void {
- // console.trace("maybeSpawnHazards called");
+/**
+ * Decide which flyers spawn on the NEXT hazard phase (advances the rng seed).
+ * Stored as state.pendingSpawns so players (and the AI) can see them coming.
+ */
+export function forecastSpawns(state: GameState): PendingSpawn[] {
   const rng = mulberry32(state.rngSeed);
   // advance seed for next time
   state.rngSeed = (state.rngSeed + 0x9e3779b9) >>> 0;
 
-  // Central belt rows for 10-high with 6-deep belt: rows 2..7 inclusive
-  const beltTop = 2;
-  const beltBottom = 7;
-
-  // Tune these:
-  const spawnChanceCometHoriz = 0.35; // per flyer tick
-  const spawnChanceCometVert = 0.20;
+  // Central belt rows (rows 2..7 on a 10-high board)
+  const beltTop = Math.min(state.rules.hazards.beltInset, state.rows - 1);
+  const beltBottom = Math.max(beltTop, state.rows - 1 - state.rules.hazards.beltInset);
+  const spawnChanceCometHoriz = state.rules.hazards.cometHorizChance; // per flyer tick
+  const spawnChanceCometVert = state.rules.hazards.cometVertChance;
+  const spawnChanceAsteroidVert = state.rules.hazards.asteroidVertChance;
 
-  const spawnChanceAsteroidVert = 0.42;
+  const out: PendingSpawn[] = [];
 
   // --------------------
   // HORIZONTAL COMETS (hazards) — ONLY A/T, belt rows only
@@ -71,126 +123,360 @@ export function maybeSpawnHazards(state: GameState): void {
     const row = randInt(rng, beltTop, beltBottom);
     const fromLeft = rng() < 0.5;
 
-    const hz: FlyingHazard = {
-      id: newHazardId(),
+    out.push({
       kind: "comet",
       pos: { r: row, c: fromLeft ? 0 : state.cols - 1 },
       dir: fromLeft ? "E" : "W",
-      alive: true,
-    };
-
-    // If it spawns on a piece, destroy piece, comet disappears immediately (impact)
-    const p = pieceAt(state, hz.pos);
-    if (p) {
-      p.alive = false;
-      hz.alive = false;
-    }
+      speed: pickCometSpeed(state, rng),
+    });
+  }
 
-    // If it spawns on a static hazard, comet disappears
-    const sh = staticAt(state, hz.pos);
-    if (sh) hz.alive = false;
+  // --------------------
+  // VERTICAL COMETS (hazards) — edge bands (A–D / Q–T on 10x20), top/bottom row only
+  // --------------------
+  if (rng() < spawnChanceCometVert) {
+    out.push({
+      kind: "comet",
+      ...pickVerticalSpawn(state, rng),
+      speed: pickCometSpeed(state, rng),
+    });
+  }
 
-    if (hz.alive) state.flyers.push(hz);
+  // --------------------
+  // VERTICAL ASTEROIDS (collectibles) — edge bands (A–D / Q–T on 10x20), top/bottom row only
+  // --------------------
+  if (rng() < spawnChanceAsteroidVert) {
+    out.push({
+      kind: "asteroid",
+      ...pickVerticalSpawn(state, rng),
+      speed: 1,
+    });
   }
 
   // --------------------
-  // VERTICAL COMETS (hazards) — edge bands A–D / Q–T, row 1/10 only
+  // DIAGONAL COMETS (hazards) — from A/T on belt rows, heading up or down the board
   // --------------------
-  if (rng() < spawnChanceCometVert) {
-    const col = pickEdgeBandColumn(state, rng);
-    const fromTop = rng() < 0.5;
+  if (rng() < state.rules.hazards.cometDiagChance) {
+    const row = randInt(rng, beltTop, beltBottom);
+    const fromLeft = rng() < 0.5;
+    const up = rng() < 0.5;
 
-    const hz: FlyingHazard = {
-      id: newHazardId(),
+    out.push({
       kind: "comet",
-      pos: { r: fromTop ? 0 : state.rows - 1, c: col },
-      dir: fromTop ? "S" : "N",
-      alive: true,
-    };
+      pos: { r: row, c: fromLeft ? 0 : state.cols - 1 },
+      dir: fromLeft ? (up ? "NE" : "SE") : (up ? "NW" : "SW"),
+      speed: pickCometSpeed(state, rng),
+    });
+  }
 
-    const p = pieceAt(state, hz.pos);
-    if (p) {
+  return out;
+}
+
+// Bring one forecast flyer onto the board, resolving what it appears on
+function spawnFlyer(state: GameState, spec: PendingSpawn, events: GameEvent[]): void {
+  const hz: FlyingHazard = {
+    id: nextHazardId(state.ids),
+    kind: spec.kind,
+    pos: { ...spec.pos },
+    dir: spec.dir,
+    speed: spec.speed,
+    alive: true,
+  };
+
+  events.push({ kind: "hazardSpawn", hazardId: hz.id, hazard: hz.kind, sq: { ...hz.pos }, dir: hz.dir });
+
+  // If it spawns on a piece: a comet destroys it (impact), an asteroid is collected at once
+  const p = pieceAt(state, hz.pos);
+  if (p) {
+    hz.alive = false;
+    if (hz.kind === "comet") {
       p.alive = false;
-      hz.alive = false;
+      events.push({ kind: "hazardKill", pieceId: p.id, hazardId: hz.id, sq: { ...hz.pos } });
+    } else {
+      state.manufacturing[p.side] += state.rules.economy.asteroidValue;
+      events.push({ kind: "asteroidCollected", side: p.side, pieceId: p.id, hazardId: hz.id, sq: { ...hz.pos } });
     }
+  }
+
+  // If it spawns on a static hazard, it disappears
+  if (staticAt(state, hz.pos)) hz.alive = false;
+
+  if (hz.alive) resolveSpawnOnFlyer(state, hz, events);
+  if (hz.alive) state.flyers.push(hz);
+}
+
+/**
+ * The flyers forecast last phase appear now (no new random decisions).
+ * Events (spawns, spawn-impact kills, spawn collisions) are appended to `events` if given.
+ */
+export function spawnPendingHazards(state: GameState, events: GameEvent[] = []): void {
+  for (const spec of state.pendingSpawns) spawnFlyer(state, spec, events);
+  state.pendingSpawns = [];
+
+  // Drop flyers destroyed by spawn collisions
+  state.flyers = state.flyers.filter(h => h.alive);
+}
 
-    const sh = staticAt(state, hz.pos);
-    if (sh) hz.alive = false;
+/**
+ * Hazard-phase spawning: last phase's forecast appears, then the next one is forecast.
+ * Events (spawns, spawn-impact kills, spawn collisions) are appended to `events` if given.
+ */
+export function maybeSpawnHazards(state: GameState, events: GameEvent[] = []): void {
+  spawnPendingHazards(state, events);
+  state.pendingSpawns = forecastSpawns(state);
+}
 
-    if (hz.alive) state.flyers.push(hz);
+/**
+ * One flyer's movement over the coming tick, after every collision along the way.
+ * Fast flyers move one square per sub-step; everything they pass is checked.
+ */
+export type FlyerStep = {
+  hz: FlyingHazard;
+  from: Square;
+  path: Square[];   // squares entered while intact, in order (a wormhole's entrance and exit included)
+  to: Square;       // where it ends: last square of `path`, the off-board square, or where it was destroyed
+  transits: Array<{ from: Square; to: Square }>; // wormholes passed through
+  offBoard: boolean;
+  hitPiece: Piece | null; // comet => piece destroyed; asteroid => collected (flyer gone either way)
+  hitStatic: boolean;     // flew into a planet, star or black hole
+  destroyedBy: FlyingHazard | null;
+  midway: boolean;  // collided between squares (swap or diagonal crossing) with another flyer
+  stalled: boolean; // waiting this tick inside a nebula (to === from)
+};
+
+// A lone comet smashes through asteroids; anything else (comets head-on, asteroid pile-ups) annihilates
+function resolveFlyerCollision(group: FlyerStep[], midway: boolean): void {
+  const live = group.filter(s => !s.destroyedBy);
+  if (live.length < 2) return;
+
+  const comets = live.filter(s => s.hz.kind === "comet");
+  const survivor = comets.length === 1 ? comets[0] : null;
+
+  for (const s of live) {
+    if (s === survivor) continue;
+    s.destroyedBy = (survivor ?? live.find(o => o !== s)!).hz;
+    s.midway = midway;
   }
+}
 
-  // --------------------
-  // VERTICAL ASTEROIDS (collectibles) — edge bands A–D / Q–T, row 1/10 only
-  // --------------------
-  if (rng() < spawnChanceAsteroidVert) {
-    const col = pickEdgeBandColumn(state, rng);
-    const fromTop = rng() < 0.5;
+/**
+ * Plan the next tick for every flyer at once (state is not modified).
+ * A tick is split into sub-steps; in sub-step k every flyer with speed >= k moves one square:
+ * - flyers crossing between squares (swaps, diagonal X's) meet midway and collide first
+ * - then flyers sharing a square collide there (including ones not moving this sub-step)
+ * - then a survivor meets what is on its square: piece, static, or a nebula (which ends its flight)
+ * Shared by hazardTick and by anything predicting flyer positions (AI).
+ */
+export function planFlyerTick(state: GameState): FlyerStep[] {
+  type Flight = { step: FlyerStep; cur: Square; prev: Square; entered: Square; done: boolean; transited: boolean };
+
+  const flights: Flight[] = state.flyers
+    .filter(hz => hz.alive)
+    .map(hz => {
+      // Half speed inside a nebula: wait one tick, move the next
+      const stalled = nebulaAt(state, hz.pos) && !hz.lingering;
+      return {
+        step: {
+          hz, from: { ...hz.pos }, path: [], to: { ...hz.pos }, transits: [],
+          offBoard: false, hitPiece: null, hitStatic: false, destroyedBy: null, midway: false, stalled,
+        },
+        cur: { ...hz.pos }, prev: { ...hz.pos }, entered: { ...hz.pos }, done: stalled, transited: false,
+      };
+    });
+
+  // Still physically on the board (so it can be run into)
+  const present = (f: Flight) =>
+    !f.step.destroyedBy && !f.step.offBoard && !f.step.hitPiece && !f.step.hitStatic;
+
+  // Pieces already destroyed earlier in this tick don't stop later flyers
+  const killed = new Set<string>();
+  const livePieceAt = (sq: Square) => {
+    const p = pieceAt(state, sq);
+    return p && !killed.has(p.id) ? p : null;
+  };
+
+  const maxSpeed = Math.max(0, ...flights.map(f => f.step.hz.speed));
+  for (let k = 1; k <= maxSpeed; k++) {
+    const movers = flights.filter(f => !f.done && f.step.hz.speed >= k);
+    if (movers.length === 0) break;
+
+    // 1) Advance one square (an empty wormhole entrance sends it out of its exit, same direction)
+    for (const f of movers) {
+      f.prev = f.cur;
+      f.entered = nextSquare(f.cur, f.step.hz.dir);
+      f.transited = false;
+
+      if (!inBounds(f.entered, state.rows, state.cols)) {
+        f.step.offBoard = true;
+        f.step.to = { ...f.entered };
+        f.done = true;
+        continue;
+      }
 
-    const hz: FlyingHazard = {
-      id: newHazardId(),
-      kind: "asteroid",
-      pos: { r: fromTop ? 0 : state.rows - 1, c: col },
-      dir: fromTop ? "S" : "N",
-      alive: true,
-    };
+      const exit = livePieceAt(f.entered) ? null : wormholeExitSquare(state, f.entered);
+      if (exit) {
+        f.step.transits.push({ from: { ...f.entered }, to: exit });
+        f.transited = true;
+        f.cur = exit;
+      } else {
+        f.cur = { ...f.entered };
+      }
+    }
 
-    // If it spawns on a static hazard, asteroid disappears
-    const sh = staticAt(state, hz.pos);
-    if (sh) hz.alive = false;
+    const stepping = movers.filter(f => !f.step.offBoard);
+
+    // 2a) Crossing between squares: same midpoint (swap-crossing, or diagonals forming an X)
+    for (let i = 0; i < stepping.length; i++) {
+      for (let j = i + 1; j < stepping.length; j++) {
+        const a = stepping[i], b = stepping[j];
+        if (
+          a.prev.r + a.entered.r === b.prev.r + b.entered.r &&
+          a.prev.c + a.entered.c === b.prev.c + b.entered.c
+        ) {
+          resolveFlyerCollision([a.step, b.step], true);
+        }
+      }
+    }
+    for (const f of stepping) {
+      if (f.step.destroyedBy && f.step.midway) {
+        f.step.to = { ...f.entered };
+        f.cur = f.prev; // never got there
+        f.done = true;
+      }
+    }
 
-    // If it spawns on a piece, the piece collects it immediately
-    const p = pieceAt(state, hz.pos);
-    if (p) {
-      hz.alive = false;
-      state.manufacturing[p.side] += 1;
+    // 2b) Sharing a square with any flyer still on the board
+    const byPos = new Map<string, Flight[]>();
+    for (const f of flights) {
+      if (!present(f)) continue;
+      const key = `${f.cur.r},${f.cur.c}`;
+      const g = byPos.get(key);
+      if (g) g.push(f);
+      else byPos.set(key, [f]);
+    }
+    for (const g of byPos.values()) {
+      if (g.length < 2 || !g.some(f => stepping.includes(f))) continue;
+      resolveFlyerCollision(g.map(f => f.step), false);
+      for (const f of g) {
+        if (!f.step.destroyedBy) continue;
+        f.step.to = { ...f.cur };
+        f.done = true;
+      }
     }
 
-    if (hz.alive) state.flyers.push(hz);
+    // 3) Survivors meet whatever is on their new square
+    for (const f of stepping) {
+      if (f.step.destroyedBy) continue;
+
+      if (f.transited) f.step.path.push({ ...f.entered });
+      f.step.path.push({ ...f.cur });
+      f.step.to = { ...f.cur };
+
+      const p = livePieceAt(f.cur);
+      if (p) {
+        f.step.hitPiece = p;
+        if (f.step.hz.kind === "comet") killed.add(p.id);
+        f.done = true;
+        continue;
+      }
+
+      if (staticAt(state, f.cur) && !f.transited) {
+        f.step.hitStatic = true;
+        f.done = true;
+        continue;
+      }
+
+      // Entering a nebula ends this tick's flight there
+      if (nebulaAt(state, f.cur)) f.done = true;
+    }
   }
+
+  return flights.map(f => f.step);
 }
 
 /**
- * Advance all existing flyers by 1 square, resolving collisions.
+ * Advance all existing flyers by their speed (squares per tick) simultaneously, resolving collisions
+ * on every square they pass (see planFlyerTick):
+ * - Flyer vs flyer (between squares or on one):
+ *    - comet vs asteroid => asteroid destroyed; comet carries on
+ *    - comet vs comet => both destroyed
+ *    - asteroid vs asteroid => both destroyed
+ * - A flyer inside a nebula waits one tick before moving on (half speed); entering one stops it for the tick
  * - If flyer moves off board -> disappears
- * - If flyer moves onto a static hazard -> flyer disappears; static remains
+ * - If flyer moves onto an empty wormhole -> it comes out of the paired exit, same direction
  * - If flyer moves onto a piece:
  *    - comet => piece destroyed; comet disappears
- *    - asteroid => asteroid disappears; +1 manufacturing to that side
+ *    - asteroid => asteroid disappears; rules.economy.asteroidValue manufacturing to that side
+ * - If flyer moves onto a static hazard -> flyer disappears; static remains
+ * - Then black holes pull pieces and flyers in range one square (see blackHoles.ts)
+ * Events (moves, collisions, kills, pickups, pulls) are appended to `events` if given.
  */
-export function hazardTick(state: GameState): void {
-  for (const hz of state.flyers) {
-    if (!hz.alive) continue;
+export function hazardTick(state: GameState, events: GameEvent[] = []): void {
+  for (const step of planFlyerTick(state)) {
+    const hz = step.hz;
+    const from = step.from;
+
+    // Waiting out a tick in a nebula (unless something flew into it there)
+    if (step.stalled && !step.destroyedBy) {
+      hz.lingering = true;
+      continue;
+    }
+    hz.lingering = false;
 
-    const nxt = nextSquare(hz.pos, hz.dir);
+    // The part of the flight it survived
+    const lastSeen = step.path.length > 0 ? step.path[step.path.length - 1] : from;
+    if (step.path.length > 0 || step.offBoard) {
+      const to = step.destroyedBy ? lastSeen : step.to;
+      events.push({ kind: "hazardMove", hazardId: hz.id, hazard: hz.kind, from, to: { ...to }, path: step.path.map(q => ({ ...q })) });
+    }
+    for (const t of step.transits) {
+      events.push({ kind: "wormholeTransit", target: "flyer", id: hz.id, from: { ...t.from }, to: { ...t.to } });
+    }
 
-    // Off-board
-    if (!inBounds(nxt, state.rows, state.cols)) {
+    // Destroyed by another flyer
+    if (step.destroyedBy) {
       hz.alive = false;
+      if (!step.midway) hz.pos = { ...step.to };
+      events.push({
+        kind: "hazardCollision", hazardId: hz.id, hazard: hz.kind, byHazardId: step.destroyedBy.id,
+        from: { ...lastSeen }, to: { ...step.to }, midway: step.midway,
+      });
       continue;
     }
 
-    hz.pos = nxt;
-
-    // Hit static hazard => flyer gone
-    if (staticAt(state, hz.pos)) {
+    // Off-board
+    if (step.offBoard) {
       hz.alive = false;
+      events.push({ kind: "hazardGone", hazardId: hz.id, hazard: hz.kind, sq: { ...step.to } });
       continue;
     }
 
+    hz.pos = { ...step.to };
+
     // Hit piece => comet kills, asteroid collects
-    const p = pieceAt(state, hz.pos);
+    const p = step.hitPiece;
     if (p) {
       if (hz.kind === "comet") {
         p.alive = false;
         hz.alive = false;
+        events.push({ kind: "hazardKill", pieceId: p.id, hazardId: hz.id, sq: { ...hz.pos } });
       } else {
         hz.alive = false;
-        state.manufacturing[p.side] += 1;
+        state.manufacturing[p.side] += state.rules.economy.asteroidValue;
+        events.push({ kind: "asteroidCollected", side: p.side, pieceId: p.id, hazardId: hz.id, sq: { ...hz.pos } });
       }
       continue;
     }
+
+    // Hit static hazard => flyer gone
+    if (step.hitStatic) {
+      hz.alive = false;
+      events.push({ kind: "hazardGone", hazardId: hz.id, hazard: hz.kind, sq: { ...hz.pos } });
+      continue;
+    }
   }
 
+  applyBlackHolePull(state, events);
+
   state.flyers = state.flyers.filter(h => h.alive);
 }
@@ -0,0 +1,22 @@
+import type { IdCounters, PieceType, Side } from "./types";
+
+export function newIdCounters(): IdCounters {
+  return { piece: 0, hazard: 0 };
+}
+
+// Starting pieces: p1, p2, ...
+export function nextPieceId(ids: IdCounters): string {
+  ids.piece += 1;
+  return `p${ids.piece}`;
+}
+
+// Deployed ships share the piece counter but keep a readable tag: WQ_d17
+export function nextDeployedPieceId(ids: IdCounters, side: Side, type: PieceType): string {
+  ids.piece += 1;
+  return `${side}${type}_d${ids.piece}`;
+}
+
+export function nextHazardId(ids: IdCounters): string {
+  ids.hazard += 1;
+  return `hz${ids.hazard}`;
+}
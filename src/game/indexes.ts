@@ -9,6 +9,10 @@ export function staticAt(state: GameState, sq: Square): StaticHazard | undefined
   return state.statics.find(h => sameSq(h.pos, sq));
 }
 
+export function nebulaAt(state: GameState, sq: Square): boolean {
+  return state.nebulae.some(n => sameSq(n, sq));
+}
+
 export function flyerAt(state: GameState, sq: Square): FlyingHazard | undefined {
   return state.flyers.find(f => f.alive && sameSq(f.pos, sq));
 }
@@ -0,0 +1,55 @@
+import type { GameState, Side, Square, Action, ActionResult, DeployType } from "./types";
+import { pieceAt, staticAt, flyerAt } from "./indexes";
+import { applyMove, applyDeploy, mkMove } from "./applyMove";
+import { cloneState } from "./clone";
+import { pseudoLegalMoves } from "./moveGen";
+import { inDeployZone } from "./deployZones";
+
+// Empty deploy-zone squares (no piece, static or flyer)
+export function deploySquaresFor(state: GameState, side: Side): Square[] {
+  const out: Square[] = [];
+  for (let r = 0; r < state.rows; r++) for (let c = 0; c < state.cols; c++) {
+    const sq = { r, c };
+    if (!inDeployZone(state, side, sq)) continue;
+    if (pieceAt(state, sq)) continue;
+    if (staticAt(state, sq)) continue;
+    if (flyerAt(state, sq)) continue;
+    out.push(sq);
+  }
+  return out;
+}
+
+// The engine is the authority: an action is legal if it accepts it
+function accepted(state: GameState, side: Side, act: (sim: GameState) => ActionResult): boolean {
+  const sim = cloneState(state);
+  sim.sideToMove = side;
+  return act(sim).ok;
+}
+
+/**
+ * Every legal move and deploy for side (as if it were side's turn).
+ * Moves come from the shared piece geometry in moveGen.ts; with rules.kingSafety
+ * each one is also checked against the engine so nothing leaves the king capturable.
+ */
+export function generateLegalActions(state: GameState, side: Side): Action[] {
+  const actions: Action[] = [];
+
+  for (const m of pseudoLegalMoves(state, side)) {
+    actions.push({ kind: "move", from: m.from, to: m.to, promotion: m.promotion });
+  }
+
+  const mp = state.manufacturing[side];
+  const squares = deploySquaresFor(state, side);
+  const costs = state.rules.economy.deployCosts;
+  for (const type of Object.keys(costs) as DeployType[]) {
+    const cost = costs[type];
+    if (mp < cost) continue;
+    for (const to of squares) actions.push({ kind: "deploy", to, type, cost });
+  }
+
+  if (!state.rules.kingSafety) return actions;
+
+  return actions.filter(a => accepted(state, side, sim => a.kind === "move"
+    ? applyMove(sim, mkMove(a.from, a.to, a.promotion), "none")
+    : applyDeploy(sim, a.to, a.type, "none")));
+}
@@ -0,0 +1,41 @@
+import type { GameState, Square, GameEvent, Side } from "./types";
+import { isAdjacent8 } from "./geom";
+
+/**
+ * Planet mining (rules.economy.planetIncome > 0):
+ * - A side holds a planet when one of its pieces is 8-adjacent to it and no enemy piece is.
+ * - Contested planets (both sides next to it) and empty orbits give nothing.
+ * - At the end of each round (after Black acts, before any hazard phase) every held planet
+ *   pays planetIncome manufacturing points to its holder.
+ */
+
+/** Planets `side` holds right now (uncontested). */
+export function heldPlanets(state: GameState, side: Side): Square[] {
+  const near = (s: Side, planet: Square) =>
+    state.pieces.some(p => p.alive && p.side === s && isAdjacent8(p.pos, planet));
+
+  return state.statics
+    .filter(h => h.kind === "planet")
+    .map(h => h.pos)
+    .filter(planet => near(side, planet) && !near(side === "W" ? "B" : "W", planet));
+}
+
+/** Manufacturing points `side` would collect if the round ended now. */
+export function planetIncome(state: GameState, side: Side): number {
+  const per = state.rules.economy.planetIncome;
+  if (per <= 0) return 0;
+  return per * heldPlanets(state, side).length;
+}
+
+/** Pay both sides for their held planets (call once per round). */
+export function collectPlanetIncome(state: GameState, events: GameEvent[] = []): void {
+  const per = state.rules.economy.planetIncome;
+  if (per <= 0) return;
+
+  for (const side of ["W", "B"] as const) {
+    for (const planet of heldPlanets(state, side)) {
+      state.manufacturing[side] += per;
+      events.push({ kind: "planetIncome", side, sq: { ...planet }, amount: per });
+    }
+  }
+}
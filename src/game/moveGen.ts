@@ -0,0 +1,175 @@
+import type { GameState, Move, Piece, PieceType, Side, Square } from "./types";
+import { inBounds } from "./geom";
+import { pieceAt, staticAt, flyerAt, nebulaAt } from "./indexes";
+import { wormholeExitSquare } from "./wormholes";
+
+/**
+ * Piece geometry, shared by the engine (applyMove), the UI highlights and the AI.
+ * "Pseudo-legal": ignores king safety, which is a rules option checked on top.
+ *
+ * Common to every piece:
+ * - Friendly pieces block the destination
+ * - Enemy pieces can be captured
+ * - Static hazards and flyers can be moved onto (suicide / comet impact / asteroid pickup)
+ * - Sliders stop at the first piece, static or flyer on their ray
+ */
+
+const ROOK_DIRS = [
+  { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
+];
+const BISHOP_DIRS = [
+  { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
+];
+const KNIGHT_DELTAS = [
+  { dr: -2, dc: -1 }, { dr: -2, dc: 1 },
+  { dr: -1, dc: -2 }, { dr: -1, dc: 2 },
+  { dr: 1, dc: -2 },  { dr: 1, dc: 2 },
+  { dr: 2, dc: -1 },  { dr: 2, dc: 1 },
+];
+
+// Anything a slider or pawn can't pass through (nebulae too: they can be entered, not seen through)
+function isBlocked(state: GameState, sq: Square): boolean {
+  return !!pieceAt(state, sq) || !!staticAt(state, sq) || !!flyerAt(state, sq) || nebulaAt(state, sq);
+}
+
+function slideDests(state: GameState, p: Piece, dirs: Array<{ dr: number; dc: number }>): Square[] {
+  const out: Square[] = [];
+
+  for (const d of dirs) {
+    let sq = { r: p.pos.r + d.dr, c: p.pos.c + d.dc };
+
+    while (inBounds(sq, state.rows, state.cols)) {
+      const occ = pieceAt(state, sq);
+      if (occ) {
+        if (occ.side !== p.side) out.push(sq); // capture
+        break;
+      }
+
+      out.push(sq);
+
+      // Hazard: may move onto it (wormholes included), but not past it
+      if (isBlocked(state, sq)) break;
+
+      sq = { r: sq.r + d.dr, c: sq.c + d.dc };
+    }
+  }
+
+  return out;
+}
+
+function stepDests(state: GameState, p: Piece, deltas: Array<{ dr: number; dc: number }>): Square[] {
+  const out: Square[] = [];
+  for (const d of deltas) {
+    const sq = { r: p.pos.r + d.dr, c: p.pos.c + d.dc };
+    if (!inBounds(sq, state.rows, state.cols)) continue;
+
+    const occ = pieceAt(state, sq);
+    if (occ && occ.side === p.side) continue;
+
+    out.push(sq);
+  }
+  return out;
+}
+
+function pawnDests(state: GameState, p: Piece): Square[] {
+  const out: Square[] = [];
+  const dir = p.side === "W" ? -1 : 1; // white moves "up" the board visually
+  const startRow = p.side === "W" ? state.rows - 2 : 1; // rank 2 or rank (rows-1)
+
+  // One square forward: any square without a piece (hazards = suicide / impact / pickup)
+  const one = { r: p.pos.r + dir, c: p.pos.c };
+  if (inBounds(one, state.rows, state.cols) && !pieceAt(state, one)) {
+    out.push(one);
+
+    // Two-square launch from the starting rank: the mid-square must be completely clear
+    const two = { r: p.pos.r + 2 * dir, c: p.pos.c };
+    if (
+      p.pos.r === startRow &&
+      inBounds(two, state.rows, state.cols) &&
+      !isBlocked(state, one) &&
+      !pieceAt(state, two)
+    ) {
+      out.push(two);
+    }
+  }
+
+  // Diagonals: capture an enemy, or fly into a hazard
+  for (const dc of [-1, 1]) {
+    const diag = { r: p.pos.r + dir, c: p.pos.c + dc };
+    if (!inBounds(diag, state.rows, state.cols)) continue;
+
+    const occ = pieceAt(state, diag);
+    if (occ) {
+      if (occ.side !== p.side) out.push(diag);
+      continue;
+    }
+    if (staticAt(state, diag) || flyerAt(state, diag)) out.push(diag);
+  }
+
+  return out;
+}
+
+/** Every square this piece may move to (ignoring king safety). */
+export function pieceDestinations(state: GameState, p: Piece): Square[] {
+  switch (p.type) {
+    case "R": return slideDests(state, p, ROOK_DIRS);
+    case "B": return slideDests(state, p, BISHOP_DIRS);
+    case "Q": return slideDests(state, p, [...ROOK_DIRS, ...BISHOP_DIRS]);
+    case "N": return stepDests(state, p, KNIGHT_DELTAS);
+    case "K": return stepDests(state, p, [...ROOK_DIRS, ...BISHOP_DIRS]); // no castling (spacecraft)
+    case "P": return pawnDests(state, p);
+  }
+}
+
+// Far rank for a side: rank 10 (internal row 0) for White, rank 1 (internal row rows-1) for Black
+export function promotionRowFor(state: GameState, side: Side): number {
+  return side === "W" ? 0 : state.rows - 1;
+}
+
+// Pieces a pawn may promote into (no kings, no staying a pawn)
+export const PROMOTION_TYPES: PieceType[] = ["Q", "R", "B", "N"];
+
+// Where a piece moving onto `to` comes to rest: out of a wormhole's paired exit
+// (unless another piece stands there), else `to` itself
+export function landingSquare(state: GameState, mover: Piece, to: Square): Square {
+  const exit = wormholeExitSquare(state, to);
+  const blocker = exit ? pieceAt(state, exit) : undefined;
+  return exit && (!blocker || blocker === mover) ? exit : to;
+}
+
+// A pawn landing on its far rank, directly or out of a wormhole
+function promotesOn(state: GameState, p: Piece, to: Square): boolean {
+  return p.type === "P" && landingSquare(state, p, to).r === promotionRowFor(state, p.side);
+}
+
+/**
+ * True if this move takes a pawn onto its far rank (and so needs a promotion choice).
+ * Does not check legality; callers use it to decide whether to ask for a piece type.
+ */
+export function isPromotionMove(state: GameState, move: Move): boolean {
+  const mover = pieceAt(state, move.from);
+  return !!mover && promotesOn(state, mover, move.to);
+}
+
+/**
+ * All of side's moves ignoring king safety (one per promotion choice).
+ * Cheap enough for evaluation terms like mobility and hanging pieces.
+ */
+export function pseudoLegalMoves(state: GameState, side: Side): Move[] {
+  const out: Move[] = [];
+
+  for (const p of state.pieces) {
+    if (!p.alive || p.side !== side) continue;
+
+    const from = { r: p.pos.r, c: p.pos.c };
+    for (const to of pieceDestinations(state, p)) {
+      if (promotesOn(state, p, to)) {
+        for (const t of PROMOTION_TYPES) out.push({ from, to, promotion: t });
+      } else {
+        out.push({ from, to });
+      }
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,148 @@
+import type { GameState, Action, PieceType, DeployType } from "./types";
+import { sameSq, fileName, fileIndex, squareName, parseSquareName } from "./geom";
+import { pieceAt } from "./indexes";
+import { cloneState } from "./clone";
+import { applyMove, mkMove } from "./applyMove";
+import { generateLegalActions } from "./legalActions";
+import { isPromotionMove } from "./moveGen";
+
+/**
+ * Action notation (algebraic, files A–T… and ranks 1–10… as on the board edges):
+ * - Moves: piece letter (none for pawns), optional from-file/rank/square, "x" on a capture,
+ *   destination, "=Q" on a promotion: NF3, RxE7, DxE5, G10=Q, NBD2, R1E1
+ * - The mover's own fate is marked after the destination:
+ *   "*" destroyed on arrival (planet, star, black hole, comet, blocked wormhole exit),
+ *   "$" collects an asteroid: BxH6*, NK5$
+ * - Deploys: "@", ship letter, space, square: @N H1
+ * Disambiguation is the shortest that picks out a single action from generateLegalActions;
+ * "P" may prefix pawn moves when a file letter would read as a piece (PB4xC5).
+ * Markers are informational: the parser ignores "x", "*", "$", "+", "#", "!" and "?".
+ */
+
+function sameAction(a: Action, b: Action): boolean {
+  if (a.kind === "deploy") return b.kind === "deploy" && sameSq(a.to, b.to) && a.type === b.type;
+  if (b.kind === "deploy") return false;
+  return sameSq(a.from, b.from) && sameSq(a.to, b.to) && a.promotion === b.promotion;
+}
+
+// What the action does to the mover on arrival (before any hazard phase)
+function arrivalMarkers(state: GameState, a: Action & { kind: "move" }): { capture: boolean; fate: string } {
+  const sim = cloneState(state);
+  sim.rules = { ...sim.rules, kingSafety: false };
+  const mover = pieceAt(sim, a.from);
+  const res = applyMove(sim, mkMove(a.from, a.to, a.promotion), "none");
+  if (!res.ok || !mover) return { capture: false, fate: "" };
+
+  const capture = res.events.some(e => e.kind === "capture" && e.pieceId === mover.id);
+  const destroyed = res.events.some(e => (e.kind === "suicide" || e.kind === "cometImpact") && e.pieceId === mover.id);
+  const collected = res.events.some(e => e.kind === "asteroidCollected" && e.pieceId === mover.id);
+  return { capture, fate: destroyed ? "*" : collected ? "$" : "" };
+}
+
+/** Notation for `action`, a legal action of the side to move in `state` (the position before it). */
+export function formatAction(state: GameState, action: Action): string {
+  if (action.kind === "deploy") return `@${action.type} ${squareName(action.to, state.rows)}`;
+
+  const mover = pieceAt(state, action.from);
+  if (!mover) throw new Error(`No piece on ${squareName(action.from, state.rows)}`);
+
+  // A promotion left unspecified is a Queen (as in applyMove)
+  if (!action.promotion && isPromotionMove(state, action)) action = { ...action, promotion: "Q" };
+
+  const { capture, fate } = arrivalMarkers(state, action);
+  const to = squareName(action.to, state.rows);
+  const promo = action.promotion ? `=${action.promotion}` : "";
+  const letter = mover.type === "P" ? "" : mover.type;
+  const fromFile = fileName(action.from.c);
+  const fromRank = String(state.rows - action.from.r);
+
+  // Shortest first (pawn captures always name their file, as in chess)
+  const froms = mover.type === "P" && capture
+    ? [fromFile, fromFile + fromRank]
+    : ["", fromFile, fromRank, fromFile + fromRank];
+
+  const legal = generateLegalActions(state, state.sideToMove);
+  const candidates = [
+    ...froms.map(from => `${letter}${from}${capture ? "x" : ""}${to}${promo}`),
+    `${mover.type}${fromFile}${fromRank}${capture ? "x" : ""}${to}${promo}`, // always unique
+  ];
+  for (const text of candidates) {
+    const matches = matchMoves(state, legal, text);
+    if (matches.length === 1 && sameAction(matches[0], action)) return text + fate;
+  }
+  return candidates[candidates.length - 1] + fate;
+}
+
+const MOVE_BODY_RE = /^([A-Z]*)(\d*)([A-Z]+)(\d+)(?:=([QRBN]))?$/;
+const PIECE_LETTERS = "KQRBNP";
+
+// Every way to split a (marker-free, piece-letter-free) body into from-file/rank and destination.
+// Without a from-rank the letters run together ("AB3": from A to B3, or to AB3 on a wide board).
+type MoveBodySplit = { fromFile?: string; fromRank?: string; toFile: string; toRank: string; promotion?: string };
+
+function splitMoveBody(body: string): MoveBodySplit[] {
+  const m = MOVE_BODY_RE.exec(body);
+  if (!m) return [];
+  const [, fromFile, fromRank, toFile, toRank, promotion] = m;
+  if (fromRank) return [{ fromFile: fromFile || undefined, fromRank, toFile, toRank, promotion }];
+
+  const letters = fromFile + toFile;
+  const out: MoveBodySplit[] = [];
+  for (let k = 0; k < letters.length; k++) {
+    out.push({ fromFile: letters.slice(0, k) || undefined, toFile: letters.slice(k), toRank, promotion });
+  }
+  return out;
+}
+
+// Legal moves the (marker-free) text could mean, under every reading of a leading letter
+function matchMoves(state: GameState, legal: Action[], text: string): Action[] {
+  const readings: { type: PieceType; body: string }[] = [];
+  if (PIECE_LETTERS.includes(text[0])) readings.push({ type: text[0] as PieceType, body: text.slice(1) });
+  // No piece letter: a pawn (also when the first letter is a file that looks like a piece)
+  readings.push({ type: "P", body: text });
+
+  const out: Action[] = [];
+  for (const { type, body } of readings) {
+    for (const split of splitMoveBody(body.replace(/x/g, ""))) {
+      const to = parseSquareName(split.toFile + split.toRank, state.rows, state.cols);
+      if (!to) continue;
+      const fromC = split.fromFile !== undefined ? fileIndex(split.fromFile) : undefined;
+      const fromR = split.fromRank !== undefined ? state.rows - Number(split.fromRank) : undefined;
+      const promotion = split.promotion as PieceType | undefined;
+
+      for (const a of legal) {
+        if (a.kind !== "move" || !sameSq(a.to, to)) continue;
+        if (fromC !== undefined && a.from.c !== fromC) continue;
+        if (fromR !== undefined && a.from.r !== fromR) continue;
+        if (pieceAt(state, a.from)?.type !== type) continue;
+        // A promotion written without a type means a Queen
+        if (a.promotion !== (promotion ?? (a.promotion ? "Q" : undefined))) continue;
+        if (!out.some(o => sameAction(o, a))) out.push(a);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * The legal action of the side to move that `text` denotes.
+ * Throws an Error if the text is malformed, matches nothing legal, or is ambiguous.
+ */
+export function parseAction(state: GameState, text: string): Action {
+  const t = text.trim();
+  const legal = generateLegalActions(state, state.sideToMove);
+
+  const dm = /^@([PNBRQ])\s*([A-Z]+\d+)$/.exec(t);
+  if (dm) {
+    const to = parseSquareName(dm[2], state.rows, state.cols);
+    const type = dm[1] as DeployType;
+    const a = to && legal.find(x => x.kind === "deploy" && x.type === type && sameSq(x.to, to));
+    if (!a) throw new Error(`Illegal deploy: "${t}"`);
+    return a;
+  }
+
+  const matches = matchMoves(state, legal, t.replace(/[*$+#!?]+$/, ""));
+  if (matches.length === 0) throw new Error(`Illegal or unreadable move: "${t}"`);
+  if (matches.length > 1) throw new Error(`Ambiguous move: "${t}"`);
+  return matches[0];
+}
@@ -0,0 +1,98 @@
+import type { GameState, Square, StaticHazard, GameEvent } from "./types";
+import { inBounds, sameSq } from "./geom";
+import { pieceAt, flyerAt } from "./indexes";
+
+/**
+ * Orbiting planets (rules.hazards.planetOrbitEvery > 0):
+ * - Each planet carries `orbit` = { center, radius, phase }: it sits on the square ring
+ *   (king-move distance `radius`) around `center`, at index `phase` going clockwise.
+ * - Every planetOrbitEvery hazard ticks, all orbiting planets advance one square together.
+ * - A piece or flyer on the destination square is crushed.
+ * - A planet whose next square holds another (non-moving) static waits.
+ */
+
+/** Ring squares around `center`, clockwise from the top-left corner (off-board squares skipped). */
+export function orbitRing(rows: number, cols: number, center: Square, radius: number): Square[] {
+  const out: Square[] = [];
+  const R = radius;
+  for (let dc = -R; dc < R; dc++) out.push({ r: center.r - R, c: center.c + dc }); // top, left -> right
+  for (let dr = -R; dr < R; dr++) out.push({ r: center.r + dr, c: center.c + R }); // right, top -> bottom
+  for (let dc = R; dc > -R; dc--) out.push({ r: center.r + R, c: center.c + dc }); // bottom, right -> left
+  for (let dr = R; dr > -R; dr--) out.push({ r: center.r + dr, c: center.c - R }); // left, bottom -> top
+  return out.filter(sq => inBounds(sq, rows, cols));
+}
+
+/** Square `h` moves to on its next orbit step (null if it doesn't orbit). */
+export function nextOrbitSquare(state: GameState, h: StaticHazard): Square | null {
+  if (!h.orbit) return null;
+  const ring = orbitRing(state.rows, state.cols, h.orbit.center, h.orbit.radius);
+  if (ring.length === 0) return null;
+  return ring[(h.orbit.phase + 1) % ring.length];
+}
+
+/** Hazard ticks until planets next move (1 = on the coming tick), or null if orbits are off. */
+export function ticksUntilOrbitStep(state: GameState): number | null {
+  const every = state.rules.hazards.planetOrbitEvery;
+  if (every <= 0) return null;
+  return every - (state.hazardTicks % every);
+}
+
+// Orbiting planets that will actually move on their next step (blocked ones wait)
+function movingPlanets(state: GameState): Array<{ h: StaticHazard; to: Square }> {
+  const planned = state.statics
+    .filter(h => h.orbit)
+    .map(h => ({ h, to: nextOrbitSquare(state, h) }))
+    .filter((m): m is { h: StaticHazard; to: Square } => m.to !== null);
+
+  // A planet is blocked by a static that stays put (which may be a blocked planet itself)
+  const blocked = new Set<StaticHazard>();
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const m of planned) {
+      if (blocked.has(m.h)) continue;
+      const st = state.statics.find(o => o !== m.h && sameSq(o.pos, m.to));
+      const stays = st && (!st.orbit || blocked.has(st) || !planned.some(p => p.h === st));
+      if (stays) {
+        blocked.add(m.h);
+        changed = true;
+      }
+    }
+  }
+
+  return planned.filter(m => !blocked.has(m.h));
+}
+
+/** True if an orbiting planet lands on `sq` during the coming hazard tick. */
+export function willBeCrushed(state: GameState, sq: Square): boolean {
+  if (ticksUntilOrbitStep(state) !== 1) return false;
+  return movingPlanets(state).some(m => sameSq(m.to, sq));
+}
+
+/**
+ * Count one hazard tick and, when due, advance every orbiting planet.
+ * Events (planet moves, crushes) are appended to `events`.
+ */
+export function advanceOrbits(state: GameState, events: GameEvent[]): void {
+  const due = ticksUntilOrbitStep(state) === 1;
+  state.hazardTicks += 1;
+  if (!due) return;
+
+  for (const { h, to } of movingPlanets(state)) {
+    const p = pieceAt(state, to);
+    if (p) {
+      p.alive = false;
+      events.push({ kind: "crushed", target: "piece", id: p.id, sq: { ...to } });
+    }
+    const f = flyerAt(state, to);
+    if (f) {
+      f.alive = false;
+      events.push({ kind: "crushed", target: "flyer", id: f.id, sq: { ...to } });
+    }
+
+    events.push({ kind: "planetMove", from: { ...h.pos }, to: { ...to } });
+    h.pos = { ...to };
+    h.orbit!.phase = (h.orbit!.phase + 1) % orbitRing(state.rows, state.cols, h.orbit!.center, h.orbit!.radius).length;
+  }
+
+  state.flyers = state.flyers.filter(f => f.alive);
+}
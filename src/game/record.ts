@@ -0,0 +1,263 @@
+import type { GameState, RulesConfig, Action, GameEvent } from "./types";
+import { kingResult, type GameResult, type WinReason, type DrawReason } from "./result";
+import { createInitialState } from "./setup";
+import { applyMove, applyDeploy, mkMove, runHazardPhase, isHazardPly } from "./applyMove";
+import { cloneState } from "./clone";
+import { parseAction } from "./notation";
+import { formatFen, formatRules, parseRules } from "./fen";
+
+/**
+ * Game record (PGN-like): tag pairs, a blank line, then the numbered actions in notation
+ * (see notation.ts) with optional {comments}, ending in the result.
+ *
+ *   [Event "Solar War"]
+ *   [Date "2026.10.19"]
+ *   [Seed "1760870400000"]
+ *   [Board "10x20"]
+ *   [Rules "classic"]
+ *   [Result "1-0"]
+ *   [Termination "king"]
+ *   [Checksum "9f2c01ab"]
+ *
+ *   1. G3 {opening} G8 2. NF3 @N A10 3. ... 1-0
+ *
+ * Hazards come from the seed (rngSeed), so replaying the actions through applyMove/applyDeploy
+ * brings every comet back exactly. The checksum of the final position text (see fen.ts)
+ * catches rule changes that would replay an old record differently.
+ */
+
+export type RecordMove = { text: string; comment?: string };
+
+export type GameRecord = {
+  seed: number;
+  rules: RulesConfig;
+  date?: string;
+  moves: RecordMove[];
+  result: GameResult | null; // null: unfinished ("*")
+  checksum: string;
+};
+
+/** A position replayed from a record: states[i] is before moves[i], the last one after every move. */
+export type Replay = {
+  states: GameState[];
+  actions: Action[];
+  events: GameEvent[][];
+};
+
+/** One step of the replay viewer: the position after an action, or after the hazard phase that followed it. */
+export type ReplayFrame = {
+  kind: "start" | "action" | "hazards";
+  state: GameState;
+  events: GameEvent[]; // what happened to get here (none for the start)
+  moveIndex: number;   // the record move this frame belongs to (-1 for the start)
+  action?: Action;
+};
+
+const WIN_REASONS: WinReason[] = ["king", "checkmate"];
+const DRAW_REASONS: DrawReason[] = ["stalemate", "repetition", "moveLimit", "mutualDestruction"];
+
+// FNV-1a, 32 bits: plenty to notice a replay going somewhere else
+function fnv1a(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+export function positionChecksum(state: GameState): string {
+  return fnv1a(formatFen(state));
+}
+
+/**
+ * Play a record's moves from its seed and rules (full hazard phases, as in a live game).
+ * Throws an Error naming the first move that doesn't parse or is rejected.
+ */
+export function replayRecord(rec: Pick<GameRecord, "seed" | "rules" | "moves">): Replay {
+  const state = createInitialState(rec.seed, rec.rules);
+  const replay: Replay = { states: [cloneState(state)], actions: [], events: [] };
+
+  rec.moves.forEach((m, i) => {
+    const { action, events } = playRecordMove(state, m, i, "full");
+    replay.actions.push(action);
+    replay.events.push(events);
+    replay.states.push(cloneState(state));
+  });
+
+  return replay;
+}
+
+/**
+ * The record split the way live play shows it: each action, then (on hazard plies) its hazard
+ * phase as a frame of its own. Like the live game, an action that kills a king ends it there.
+ */
+export function replayFrames(rec: Pick<GameRecord, "seed" | "rules" | "moves">): ReplayFrame[] {
+  const state = createInitialState(rec.seed, rec.rules);
+  const frames: ReplayFrame[] = [{ kind: "start", state: cloneState(state), events: [], moveIndex: -1 }];
+
+  rec.moves.forEach((m, i) => {
+    const hazardPly = isHazardPly(state.rules, state.ply);
+    const { action, events } = playRecordMove(state, m, i, "none");
+    frames.push({ kind: "action", state: cloneState(state), events, moveIndex: i, action });
+
+    if (!hazardPly || kingResult(state)) return;
+    const hazardEvents = runHazardPhase(state);
+    frames.push({ kind: "hazards", state: cloneState(state), events: hazardEvents, moveIndex: i, action });
+  });
+
+  return frames;
+}
+
+/** "12. NF3" / "12... @N A10": the i-th record move as it reads in the movetext. */
+export function moveLabel(i: number, text: string): string {
+  return `${Math.floor(i / 2) + 1}${i % 2 ? "..." : "."} ${text}`;
+}
+
+// Parse and apply one record move; errors name the move
+function playRecordMove(state: GameState, m: RecordMove, i: number, simMode: "full" | "none"): { action: Action; events: GameEvent[] } {
+  const where = `Move ${moveLabel(i, m.text)}`;
+  let action: Action;
+  try {
+    action = parseAction(state, m.text);
+  } catch (e) {
+    throw new Error(`${where}: ${(e as Error).message}`);
+  }
+
+  const res = action.kind === "move"
+    ? applyMove(state, mkMove(action.from, action.to, action.promotion), simMode)
+    : applyDeploy(state, action.to, action.type, simMode);
+  if (!res.ok) throw new Error(`${where}: rejected (${res.reason})`);
+
+  return { action, events: res.events };
+}
+
+/** A record of the moves so far, with the checksum of where they lead. */
+export function createRecord(
+  seed: number,
+  rules: RulesConfig,
+  moves: RecordMove[],
+  result: GameResult | null,
+  date?: string
+): GameRecord {
+  const { states } = replayRecord({ seed, rules, moves });
+  return { seed, rules, date, moves, result, checksum: positionChecksum(states[states.length - 1]) };
+}
+
+function resultToken(result: GameResult | null): string {
+  if (!result) return "*";
+  if (result.outcome === "draw") return "1/2-1/2";
+  return result.outcome === "W" ? "1-0" : "0-1";
+}
+
+function escapeTag(v: string): string {
+  return v.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+export function formatRecord(rec: GameRecord): string {
+  const tags: [string, string][] = [
+    ["Event", "Solar War"],
+    ...(rec.date ? [["Date", rec.date] as [string, string]] : []),
+    ["Seed", String(rec.seed)],
+    ["Board", `${rec.rules.board.rows}x${rec.rules.board.cols}`],
+    ["Rules", formatRules(rec.rules)],
+    ["Result", resultToken(rec.result)],
+    ...(rec.result ? [["Termination", rec.result.reason] as [string, string]] : []),
+    ["Checksum", rec.checksum],
+  ];
+
+  // Movetext: "1. White Black 2. ...", wrapped like PGN
+  const tokens: string[] = [];
+  rec.moves.forEach((m, i) => {
+    if (i % 2 === 0) tokens.push(`${i / 2 + 1}.`);
+    tokens.push(m.text);
+    if (m.comment) tokens.push(`{${m.comment.replace(/{/g, "(").replace(/}/g, ")")}}`);
+  });
+  tokens.push(resultToken(rec.result));
+
+  const lines: string[] = [];
+  let line = "";
+  for (const t of tokens) {
+    if (line && line.length + 1 + t.length > 80) {
+      lines.push(line);
+      line = t;
+    } else {
+      line = line ? `${line} ${t}` : t;
+    }
+  }
+  if (line) lines.push(line);
+
+  return [...tags.map(([k, v]) => `[${k} "${escapeTag(v)}"]`), "", ...lines, ""].join("\n");
+}
+
+const TAG_RE = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+
+function bad(what: string): never {
+  throw new Error(`Bad game record: ${what}`);
+}
+
+function parseResult(token: string, reason: string | undefined): GameResult | null {
+  if (token === "*") return null;
+  if (token === "1/2-1/2") {
+    const r = DRAW_REASONS.find(x => x === reason) ?? bad(`draw reason "${reason}"`);
+    return { outcome: "draw", reason: r };
+  }
+  if (token === "1-0" || token === "0-1") {
+    const r = WIN_REASONS.find(x => x === reason) ?? bad(`win reason "${reason}"`);
+    return { outcome: token === "1-0" ? "W" : "B", reason: r };
+  }
+  return bad(`result "${token}"`);
+}
+
+/** Read formatRecord text (tags in any order; moves are checked later, by replayRecord). */
+export function parseRecord(text: string): GameRecord {
+  const tags = new Map<string, string>();
+  const body: string[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    const m = TAG_RE.exec(line);
+    if (m) tags.set(m[1], m[2].replace(/\\(.)/g, "$1"));
+    else if (line) body.push(line);
+  }
+
+  const seedText = tags.get("Seed") ?? bad("missing Seed");
+  if (!/^\d+$/.test(seedText)) bad(`seed "${seedText}"`);
+
+  const board = /^(\d+)x(\d+)$/.exec(tags.get("Board") ?? bad("missing Board")) ?? bad("board size");
+  let rules: RulesConfig;
+  try {
+    rules = parseRules(tags.get("Rules") ?? bad("missing Rules"), { rows: Number(board[1]), cols: Number(board[2]) });
+  } catch (e) {
+    bad((e as Error).message);
+  }
+
+  // Movetext tokens; comments attach to the move before them
+  const moves: RecordMove[] = [];
+  let resultText = tags.get("Result") ?? "*";
+  const movetext = body.join(" ");
+  const TOKEN_RE = /\{([^}]*)\}|(@[PNBRQ])\s+(\S+)|(\S+)/g;
+  for (let m = TOKEN_RE.exec(movetext); m; m = TOKEN_RE.exec(movetext)) {
+    if (m[1] !== undefined) {
+      const last = moves[moves.length - 1];
+      if (last) last.comment = last.comment ? `${last.comment} ${m[1].trim()}` : m[1].trim();
+    } else if (m[2] !== undefined) {
+      moves.push({ text: `${m[2]} ${m[3]}` });
+    } else if (/^\d+\.+$/.test(m[4])) {
+      continue; // move number
+    } else if (["1-0", "0-1", "1/2-1/2", "*"].includes(m[4])) {
+      resultText = m[4];
+    } else {
+      moves.push({ text: m[4] });
+    }
+  }
+
+  return {
+    seed: Number(seedText),
+    rules,
+    date: tags.get("Date"),
+    moves,
+    result: parseResult(resultText, tags.get("Termination")),
+    checksum: tags.get("Checksum") ?? "",
+  };
+}
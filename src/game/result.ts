@@ -0,0 +1,107 @@
+import type { GameState, Side } from "./types";
+import { sideToMoveStatus } from "./check";
+
+export type WinReason = "king" | "checkmate";
+export type DrawReason = "stalemate" | "repetition" | "moveLimit" | "mutualDestruction";
+
+export type GameResult =
+  | { outcome: Side; reason: WinReason }
+  | { outcome: "draw"; reason: DrawReason };
+
+// Same position three times (side to move, pieces, hazards, economy) => draw
+const REPETITION_COUNT = 3;
+
+/**
+ * Repetition key: everything that decides how play continues from here,
+ * except piece/hazard ids and the rng seed (which never repeats).
+ */
+export function positionKey(state: GameState): string {
+  const pieces = state.pieces
+    .filter(p => p.alive)
+    .map(p => `${p.side}${p.type}${p.pos.r},${p.pos.c}${p.heated ? "h" : ""}`)
+    .sort();
+
+  const flyers = state.flyers
+    .filter(hz => hz.alive)
+    .map(hz => `${hz.kind[0]}${hz.pos.r},${hz.pos.c}${hz.dir}${hz.speed}${hz.lingering ? "~" : ""}`)
+    .sort();
+
+  // Forecast spawns are already decided, so they are part of the position
+  const pending = state.pendingSpawns
+    .map(sp => `${sp.kind[0]}${sp.pos.r},${sp.pos.c}${sp.dir}${sp.speed}`)
+    .sort();
+
+  // Orbiting planets move, so where they are (and when they next step) matters too
+  const every = state.rules.hazards.planetOrbitEvery;
+  const orbits = state.statics
+    .filter(h => h.orbit)
+    .map(h => `${h.pos.r},${h.pos.c}`)
+    .sort()
+    .join(" ") + (every > 0 ? `@${state.hazardTicks % every}` : "");
+
+  // Plies until the next hazard phase (only the side to move, on the default every-round cadence)
+  const cadence = Math.max(1, state.rules.hazards.hazardEveryPlies);
+
+  return [
+    state.sideToMove + (cadence > 2 ? `@${state.ply % cadence}` : ""),
+    pieces.join(" "),
+    flyers.join(" "),
+    pending.join(" "),
+    orbits,
+    `${state.manufacturing.W}/${state.manufacturing.B}`,
+  ].join("|");
+}
+
+function isKingAlive(state: GameState, side: Side): boolean {
+  return state.pieces.some(p => p.alive && p.side === side && p.type === "K");
+}
+
+/** Game over by king destruction only (captures, hazards, star burn). */
+export function kingResult(state: GameState): GameResult | null {
+  const wAlive = isKingAlive(state, "W");
+  const bAlive = isKingAlive(state, "B");
+  if (wAlive && bAlive) return null;
+  if (wAlive) return { outcome: "W", reason: "king" };
+  if (bAlive) return { outcome: "B", reason: "king" };
+  // Both destroyed in the same action/tick
+  return { outcome: "draw", reason: "mutualDestruction" };
+}
+
+/**
+ * Full end-of-turn result for the side to move.
+ * history: positionKey of every position reached so far, including this one.
+ */
+export function gameResult(state: GameState, history: string[]): GameResult | null {
+  const byKing = kingResult(state);
+  if (byKing) return byKing;
+
+  const status = sideToMoveStatus(state);
+  if (status === "checkmate") return { outcome: state.sideToMove === "W" ? "B" : "W", reason: "checkmate" };
+  if (status === "stalemate") return { outcome: "draw", reason: "stalemate" };
+
+  const key = positionKey(state);
+  if (history.filter(k => k === key).length >= REPETITION_COUNT) {
+    return { outcome: "draw", reason: "repetition" };
+  }
+
+  const limit = state.rules.noCaptureLimit;
+  if (limit > 0 && state.plySinceCapture >= limit) {
+    return { outcome: "draw", reason: "moveLimit" };
+  }
+
+  return null;
+}
+
+export function describeResult(result: GameResult): string {
+  if (result.outcome === "draw") {
+    switch (result.reason) {
+      case "stalemate": return "Draw — stalemate";
+      case "repetition": return "Draw — threefold repetition";
+      case "moveLimit": return "Draw — move limit without captures";
+      case "mutualDestruction": return "Draw — both kings destroyed";
+    }
+  }
+
+  const who = result.outcome === "W" ? "White" : "Black";
+  return result.reason === "checkmate" ? `Checkmate — ${who} wins` : `${who} wins`;
+}
@@ -0,0 +1,133 @@
+import type { RulesConfig, DeployZone } from "./types";
+
+// The original game: 10x20 board, "Kill the King" (no check rule)
+const CLASSIC: RulesConfig = {
+  board: { rows: 10, cols: 20 },
+
+  setup: {
+    backRank: ["R", "N", "B", "Q", "K", "B", "N", "R"],
+    planets: 3,
+    stars: 1,
+    blackHoles: 0,
+    wormholePairs: 0,
+    nebulaClusters: 0,
+    nebulaClusterSize: 5,
+    // Hazard belt: on 10x20, ranks 4..7, files E..Q (one file further right than left)
+    planetRankInset: 3,
+    planetFileInset: 4,
+    planetFileInsetRight: 3,
+    // Star is even more central: on 10x20, ranks 5..6, files J..K
+    starSpread: 0,
+  },
+
+  hazards: {
+    // Central belt rows: on 10-high, a 6-deep belt (rows 2..7 inclusive)
+    beltInset: 2,
+    // 4 => A–D and (for 20 cols) Q–T; never wider than the files outside the formation
+    edgeBandDepth: 4,
+    blackHoleRadius: 2,
+    hazardEveryPlies: 2, // once per full round, after Black acts
+    planetOrbitEvery: 0, // planets stay put
+    cometHorizChance: 0.35,
+    cometVertChance: 0.20,
+    asteroidVertChance: 0.42,
+    // Diagonal and fast comets are off in the original game
+    cometDiagChance: 0,
+    fastCometChance: 0,
+    fastCometSpeed: 2,
+  },
+
+  economy: {
+    asteroidValue: 1,
+    planetIncome: 0, // planets are just obstacles
+    startingPoints: 0,
+    // Standard chess manufacturing costs
+    deployCosts: { P: 1, N: 3, B: 3, R: 5, Q: 9 },
+    deployZone: "homeRank",
+  },
+
+  kingSafety: false,
+  noCaptureLimit: 100,
+};
+
+/** Named rule sets (start-screen choices, variant testing). */
+export const RULES_PRESETS = {
+  classic: CLASSIC,
+
+  // Real chess king rules on top of the hazards
+  tournament: { ...CLASSIC, kingSafety: true },
+
+  // Fewer comets, same asteroids: more chess, less dodging
+  calm: {
+    ...CLASSIC,
+    hazards: { ...CLASSIC.hazards, cometHorizChance: 0.15, cometVertChance: 0.08 },
+  },
+
+  // Two stars near the center: twice the heat to steer around
+  binary: { ...CLASSIC, setup: { ...CLASSIC.setup, stars: 2 } },
+
+  // A black hole in the middle drags in anything that strays within two squares
+  singularity: { ...CLASSIC, setup: { ...CLASSIC.setup, blackHoles: 1 } },
+
+  // Two linked wormholes: shortcuts for pieces and comets alike
+  warp: { ...CLASSIC, setup: { ...CLASSIC.setup, wormholePairs: 1 } },
+
+  // Gas clouds that block lines of fire and slow comets
+  nebula: { ...CLASSIC, setup: { ...CLASSIC.setup, nebulaClusters: 3 } },
+
+  // Comets from every angle, some of them twice as fast
+  meteorStorm: {
+    ...CLASSIC,
+    hazards: { ...CLASSIC.hazards, cometDiagChance: 0.25, fastCometChance: 0.3 },
+  },
+
+  // Hazards move after every single ply, White's as well as Black's
+  relentless: { ...CLASSIC, hazards: { ...CLASSIC.hazards, hazardEveryPlies: 1 } },
+
+  // Planets circle the star, one square every other hazard phase
+  orrery: { ...CLASSIC, hazards: { ...CLASSIC.hazards, planetOrbitEvery: 2 } },
+
+  // Asteroid-heavy economy with cheaper ships
+  goldRush: {
+    ...CLASSIC,
+    hazards: { ...CLASSIC.hazards, asteroidVertChance: 0.75 },
+    economy: { ...CLASSIC.economy, startingPoints: 2, deployCosts: { P: 1, N: 2, B: 2, R: 4, Q: 7 } },
+  },
+
+  // Planets are mines: park a ship next to one nobody else is near for a point every round
+  prospectors: { ...CLASSIC, economy: { ...CLASSIC.economy, planetIncome: 1 } },
+} satisfies Record<string, RulesConfig>;
+
+export type RulesPresetName = keyof typeof RULES_PRESETS;
+
+/** Board sizes offered on the start screen (any size that fits the formation works). */
+export const BOARD_SIZES = {
+  "10×20": { rows: 10, cols: 20 },
+  "8×16": { rows: 8, cols: 16 },
+  "12×24": { rows: 12, cols: 24 },
+  "12×12": { rows: 12, cols: 12 },
+} satisfies Record<string, RulesConfig["board"]>;
+
+export type BoardSizeName = keyof typeof BOARD_SIZES;
+
+/** Hazard cadences offered on the start screen (rules.hazards.hazardEveryPlies). */
+export const HAZARD_CADENCES = {
+  "every round": 2,
+  "every ply": 1,
+  "every 3 plies": 3,
+  "every 2 rounds": 4,
+} satisfies Record<string, number>;
+
+export type HazardCadenceName = keyof typeof HAZARD_CADENCES;
+
+/** Deploy zones offered on the start screen (rules.economy.deployZone). */
+export const DEPLOY_ZONES = {
+  "home rank": "homeRank",
+  "first two ranks": "firstTwoRanks",
+  "next to your king": "nearKing",
+  "next to a planet you hold": "nearPlanet",
+} satisfies Record<string, DeployZone>;
+
+export type DeployZoneName = keyof typeof DEPLOY_ZONES;
+
+export const DEFAULT_RULES: RulesConfig = RULES_PRESETS.classic;
@@ -1,11 +1,11 @@
-import type { GameState, Piece, StaticHazard, Square, Side, PieceType } from "./types";
+import type { GameState, RulesConfig, Piece, StaticHazard, StaticHazardType, Square, Side, PieceType } from "./types";
 import { mulberry32, randInt } from "./rng";
-
-let pieceCounter = 0;
-function pid() {
-  pieceCounter += 1;
-  return `p${pieceCounter}`;
-}
+import { newIdCounters, nextPieceId } from "./ids";
+import { DEFAULT_RULES } from "./rules";
+import { orbitRing } from "./orbits";
+import { forecastSpawns } from "./hazards";
+import { formationStartFile } from "./geom";
+import { blackHolePullRadius } from "./blackHoles";
 
 function sqKey(s: Square) {
   return `${s.r},${s.c}`;
@@ -17,16 +17,21 @@ function rFromRank(rank: number, rows: number): number {
   return rows - rank; // rank 1 -> r=rows-1, rank rows -> r=0
 }
 
-export function createInitialState(rows: number, cols: number, seed = 123456): GameState {
-  // Standard 8-file formation starting at file G (A=0 so G=6)
-  const startFileIndex = 6; // G
-  const files = Array.from({ length: 8 }, (_, i) => startFileIndex + i); // G..N
+export function createInitialState(seed = 123456, rules: RulesConfig = DEFAULT_RULES): GameState {
+  const { rows, cols } = rules.board;
+
+  // Back-rank formation centered on the board (G..N on 20 files)
+  const back = rules.setup.backRank;
+  if (back.length > cols) throw new Error(`Board too narrow for a ${back.length}-file formation`);
+  const startFile = formationStartFile(cols, back.length);
+  const files = back.map((_, i) => startFile + i);
 
   const pieces: Piece[] = [];
+  const ids = newIdCounters();
 
   function add(side: Side, type: PieceType, fileIndex: number, rank: number) {
     pieces.push({
-      id: pid(),
+      id: nextPieceId(ids),
       side,
       type,
       pos: { r: rFromRank(rank, rows), c: fileIndex },
@@ -36,39 +41,42 @@ export function createInitialState(rows: number, cols: number, seed = 123456): G
   }
 
   // White: rank 1 (back rank) and rank 2 (pawns)
-  // Layout from file G..N: R N B Q K B N R
-  const back: PieceType[] = ["R", "N", "B", "Q", "K", "B", "N", "R"];
-  for (let i = 0; i < 8; i++) add("W", back[i], files[i], 1);
-  for (let i = 0; i < 8; i++) add("W", "P", files[i], 2);
+  for (let i = 0; i < back.length; i++) add("W", back[i], files[i], 1);
+  for (let i = 0; i < back.length; i++) add("W", "P", files[i], 2);
 
-  // Black: rank 10 (back rank) and rank 9 (pawns)
-  for (let i = 0; i < 8; i++) add("B", back[i], files[i], 10);
-  for (let i = 0; i < 8; i++) add("B", "P", files[i], 9);
+  // Black: top rank (back rank) and the one below (pawns)
+  for (let i = 0; i < back.length; i++) add("B", back[i], files[i], rows);
+  for (let i = 0; i < back.length; i++) add("B", "P", files[i], rows - 1);
 
   // --- Static hazards placement rules ---
   const rng = mulberry32(seed >>> 0);
 
-    // --- Tuning knobs ---
-  const NUM_PLANETS = 3;
-
-  // Central hazard belts (board notation ranks)
-  // Hazard belt is 6 deep: ranks 3..8 (inclusive)
-  const hazardBeltRankMin = 4;
-  const hazardBeltRankMax = 7;
-
-  // Star belt is 4 deep: ranks 4..7 (inclusive)
-  const starBeltRankMin = 5;
-  const starBeltRankMax = 6;
-
-  // Column confinement (internal columns: A=0 ... )
-  // Example: cols=20 => 0..19. Constrain hazards to the centre.
-  const hazardBeltColMin = 4;
-  const hazardBeltColMax = 16;
-
-  // Star can be even more central than planets if you like
-  const starBeltColMin = 9;
-  const starBeltColMax = 10;
+  // Zones scale with the board: planets keep clear of the home ranks and edge files,
+  // stars sit on the central rank(s)/file(s), spreading sideways when there are several
+  const { planetRankInset, planetFileInset, planetFileInsetRight, starSpread } = rules.setup;
+  const starFileSpread = starSpread + 2 * Math.max(0, rules.setup.stars - 1);
+  const planetBox = {
+    rankMin: 1 + planetRankInset,
+    rankMax: rows - planetRankInset,
+    colMin: planetFileInset,
+    colMax: cols - 1 - planetFileInsetRight,
+  };
+  const starBox = {
+    rankMin: Math.floor((rows + 1) / 2) - starSpread,
+    rankMax: Math.ceil((rows + 1) / 2) + starSpread,
+    colMin: Math.floor((cols - 1) / 2) - starFileSpread,
+    colMax: Math.ceil((cols - 1) / 2) + starFileSpread,
+  };
 
+  // Black holes stay out of pull range of both pawn ranks (ranks 5..6 on 10 rows, radius 2;
+  // ranks 4..5 on 8 rows, where the pull is capped to radius 1)
+  const holeReach = blackHolePullRadius({ rows, rules }) + 1;
+  const holeBox = {
+    rankMin: 2 + holeReach,
+    rankMax: Math.max(2 + holeReach, rows - 1 - holeReach),
+    colMin: planetBox.colMin,
+    colMax: planetBox.colMax,
+  };
 
   const occupied = new Set<string>();
   for (const p of pieces) occupied.add(sqKey(p.pos));
@@ -76,11 +84,12 @@ export function createInitialState(rows: number, cols: number, seed = 123456): G
   const statics: StaticHazard[] = [];
 
    function placeOne(
-    kind: "planet" | "star",
+    kind: StaticHazardType,
     rankMin: number,
     rankMax: number,
     colMin: number,
-    colMax: number
+    colMax: number,
+    pair?: number
   ) {
     // clamp cols to board
     const cMin = Math.max(0, colMin);
@@ -93,31 +102,108 @@ export function createInitialState(rows: number, cols: number, seed = 123456): G
       const key = `${r},${c}`;
       if (occupied.has(key)) continue;
       occupied.add(key);
-      statics.push({ kind, pos: { r, c } });
+      statics.push(pair !== undefined ? { kind, pos: { r, c }, pair } : { kind, pos: { r, c } });
       return;
     }
     throw new Error(`Failed to place ${kind}`);
   }
 
 
+  const orbiting = rules.hazards.planetOrbitEvery > 0;
+
    // Planets
-  for (let i = 0; i < NUM_PLANETS; i++) {
-    placeOne("planet", hazardBeltRankMin, hazardBeltRankMax, hazardBeltColMin, hazardBeltColMax);
+  if (!orbiting) {
+    for (let i = 0; i < rules.setup.planets; i++) {
+      placeOne("planet", planetBox.rankMin, planetBox.rankMax, planetBox.colMin, planetBox.colMax);
+    }
   }
 
-  // Star
-  placeOne("star", starBeltRankMin, starBeltRankMax, starBeltColMin, starBeltColMax);
+  // Stars
+  for (let i = 0; i < rules.setup.stars; i++) {
+    placeOne("star", starBox.rankMin, starBox.rankMax, starBox.colMin, starBox.colMax);
+  }
 
-    return {
+  // Orbiting planets: on a ring around the (first) star that stays clear of both sides'
+  // first two ranks, starting at a random free point of the ring
+  if (orbiting) {
+    const center = statics.find(h => h.kind === "star")?.pos ?? { r: Math.floor(rows / 2), c: Math.floor(cols / 2) };
+    const maxRadius = Math.max(1, Math.min(center.r - 2, rows - 3 - center.r));
+
+    for (let i = 0; i < rules.setup.planets; i++) {
+      const radius = randInt(rng, 1, maxRadius);
+      const ring = orbitRing(rows, cols, center, radius);
+      const free = ring.map((sq, phase) => ({ sq, phase })).filter(x => !occupied.has(sqKey(x.sq)));
+      if (free.length === 0) throw new Error("Failed to place planet");
+
+      const { sq, phase } = free[randInt(rng, 0, free.length - 1)];
+      occupied.add(sqKey(sq));
+      statics.push({ kind: "planet", pos: { ...sq }, orbit: { center: { ...center }, radius, phase } });
+    }
+  }
+
+  // Black holes
+  for (let i = 0; i < rules.setup.blackHoles; i++) {
+    placeOne("blackhole", holeBox.rankMin, holeBox.rankMax, holeBox.colMin, holeBox.colMax);
+  }
+
+  // Wormhole pairs: one end in each half of the planet zone, so they actually save distance
+  const midCol = Math.floor((planetBox.colMin + planetBox.colMax) / 2);
+  for (let i = 0; i < rules.setup.wormholePairs; i++) {
+    placeOne("wormhole", planetBox.rankMin, planetBox.rankMax, planetBox.colMin, midCol, i);
+    placeOne("wormhole", planetBox.rankMin, planetBox.rankMax, midCol + 1, planetBox.colMax, i);
+  }
+
+  // Nebula clusters: seeded on a free square of the planet zone, then grown onto
+  // random free orthogonal neighbours (nebulae may not cover other statics)
+  const nebulae: Square[] = [];
+  const nebulaKeys = new Set<string>();
+  const inPlanetZone = (sq: Square) =>
+    sq.r >= rFromRank(planetBox.rankMax, rows) && sq.r <= rFromRank(planetBox.rankMin, rows) &&
+    sq.c >= planetBox.colMin && sq.c <= planetBox.colMax;
+  const freeForNebula = (sq: Square) =>
+    inPlanetZone(sq) && !occupied.has(sqKey(sq)) && !nebulaKeys.has(sqKey(sq));
+
+  const ORTHO = [{ dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 }];
+  for (let i = 0; i < rules.setup.nebulaClusters; i++) {
+    const cluster: Square[] = [];
+    for (let tries = 0; tries < 1000 && cluster.length === 0; tries++) {
+      const sq = { r: rFromRank(randInt(rng, planetBox.rankMin, planetBox.rankMax), rows), c: randInt(rng, planetBox.colMin, planetBox.colMax) };
+      if (freeForNebula(sq)) cluster.push(sq);
+    }
+    if (cluster.length === 0) throw new Error("Failed to place nebula");
+    nebulaKeys.add(sqKey(cluster[0]));
+
+    for (let tries = 0; tries < 100 && cluster.length < rules.setup.nebulaClusterSize; tries++) {
+      const from = cluster[randInt(rng, 0, cluster.length - 1)];
+      const d = ORTHO[randInt(rng, 0, ORTHO.length - 1)];
+      const sq = { r: from.r + d.dr, c: from.c + d.dc };
+      if (!freeForNebula(sq)) continue;
+      cluster.push(sq);
+      nebulaKeys.add(sqKey(sq));
+    }
+    nebulae.push(...cluster);
+  }
+
+  const state: GameState = {
     rows,
     cols,
     sideToMove: "W",
     ply: 0,
+    plySinceCapture: 0,
     pieces,
     statics,
     flyers: [],
-    manufacturing: { W: 0, B: 0 },
+    pendingSpawns: [],
+    nebulae,
+    hazardTicks: 0,
+    manufacturing: { W: rules.economy.startingPoints, B: rules.economy.startingPoints },
     rngSeed: seed >>> 0,
+    rules: { ...rules },
+    ids,
   };
 
+  // The first hazard phase's spawns are known (and shown) from the start
+  state.pendingSpawns = forecastSpawns(state);
+  return state;
+
 }
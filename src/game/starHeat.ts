@@ -1,56 +1,59 @@
-import type { GameState } from "./types";
+import type { GameState, Square, GameEvent } from "./types";
 import { isAdjacent8 } from "./geom";
 
-export function starSquare(state: GameState) {
-  return state.statics.find(h => h.kind === "star")?.pos;
-}
-
 /**
- * At the START of a side's turn:
- * If any of that side's pieces are marked heated and are still adjacent to star -> destroy them.
- * Then clear heated flags for that side (they've "resolved" this turn).
+ * Star heat model (shared by marking and burning, any number of stars):
+ * - A piece is "hot" when it is 8-adjacent to ANY star.
+ * - After a side acts, its hot pieces are marked heated.
+ * - A piece heated at the start of its side's turn that is still hot after
+ *   that side acts burns up.
  */
-export function resolveHeatAtTurnStart(state: GameState): void {
-  const star = starSquare(state);
-  if (!star) return;
 
-  for (const p of state.pieces) {
-    if (!p.alive) continue;
-    if (p.side !== state.sideToMove) continue;
-    if (!p.heated) continue;
+export function starSquares(state: GameState): Square[] {
+  return state.statics.filter(h => h.kind === "star").map(h => h.pos);
+}
 
-    if (isAdjacent8(p.pos, star)) {
-      p.alive = false;
-    }
-    // Either way, the "must move away" condition is now resolved for this turn start.
-    p.heated = false;
-  }
+export function isNextToStar(state: GameState, sq: Square): boolean {
+  return starSquares(state).some(star => isAdjacent8(sq, star));
+}
+
+/** Ids of `side`'s pieces that are heated right now (call before the side acts). */
+export function heatedPieceIds(state: GameState, side: "W" | "B"): Set<string> {
+  return new Set(state.pieces.filter(p => p.alive && p.side === side && p.heated).map(p => p.id));
 }
 
 /**
  * After a player MOVE (before hazards tick), mark any of that player's pieces
- * that are adjacent to star as heated. This makes them have to move away next time.
+ * that are next to a star as heated. This makes them have to move away next time.
  */
 export function markHeatAfterMove(state: GameState, movedSide: "W" | "B"): void {
-  const star = starSquare(state);
-
-  // If no star, nobody should be heated.
   for (const p of state.pieces) {
     if (!p.alive) continue;
     if (p.side !== movedSide) continue;
-    p.heated = false;
-  }
 
-  if (!star) return;
+    // Mark heat only for pieces still next to a star after the move.
+    p.heated = isNextToStar(state, p.pos);
+  }
+}
 
-  // Mark heat only for pieces still adjacent after the move.
+/**
+ * Burn pieces that were heated when `side` started its action (`heatedAtTurnStart`)
+ * and are still next to a star after it.
+ */
+export function burnHeatedPieces(
+  state: GameState,
+  side: "W" | "B",
+  heatedAtTurnStart: Set<string>,
+  events: GameEvent[]
+): void {
   for (const p of state.pieces) {
     if (!p.alive) continue;
-    if (p.side !== movedSide) continue;
+    if (p.side !== side) continue;
+    if (!heatedAtTurnStart.has(p.id)) continue;
 
-    if (isAdjacent8(p.pos, star)) {
-      p.heated = true;
+    if (isNextToStar(state, p.pos)) {
+      p.alive = false;
+      events.push({ kind: "starBurn", pieceId: p.id, sq: { ...p.pos } });
     }
   }
 }
-
@@ -14,13 +14,15 @@ export type Piece = {
   heated: boolean;
 };
 
-export type StaticHazardType = "planet" | "star";
+export type StaticHazardType = "planet" | "star" | "blackhole" | "wormhole";
 export type StaticHazard = {
   kind: StaticHazardType;
   pos: Square;
+  pair?: number; // wormholes only: both ends of a linked pair share this number
+  orbit?: { center: Square; radius: number; phase: number }; // orbiting planets only (see orbits.ts)
 };
 
-export type HazardDir = "E" | "W" | "N" | "S";
+export type HazardDir = "E" | "W" | "N" | "S" | "NE" | "NW" | "SE" | "SW";
 
 export type FlyingHazardKind = "comet" | "asteroid";
 
@@ -29,9 +31,81 @@ export type FlyingHazard = {
   kind: FlyingHazardKind;
   pos: Square;
   dir: HazardDir;
+  speed: number;       // squares per hazard tick
   alive: boolean;
+  lingering?: boolean; // already waited one tick inside a nebula (half speed there)
 };
 
+// A flyer forecast to appear on the next hazard phase (gets its id when it spawns)
+export type PendingSpawn = {
+  kind: FlyingHazardKind;
+  pos: Square;
+  dir: HazardDir;
+  speed: number;
+};
+
+/**
+ * Every tunable game parameter in one place. Stored on GameState so every rule
+ * function reads the same numbers (see rules.ts for the named presets).
+ */
+export type RulesConfig = {
+  board: {
+    rows: number;
+    cols: number;
+  };
+
+  // Zones are insets from the board edges, so they scale with any board size
+  setup: {
+    backRank: PieceType[];   // left to right, centered on the board, mirrored for Black
+    planets: number;
+    stars: number;           // 2 = binary star, etc.
+    blackHoles: number;      // placed on the central ranks, clear of the pawns' reach
+    wormholePairs: number;   // one end in each half of the planet zone
+    nebulaClusters: number;  // clusters grown inside the planet zone
+    nebulaClusterSize: number;
+    planetRankInset: number; // planets avoid this many ranks at each end
+    planetFileInset: number; // ...and this many files on the left (A) side
+    planetFileInsetRight: number; // ...and this many on the right
+    starSpread: number;      // star box grows this far beyond the central 1-2 ranks/files
+                             // (each extra star widens it by 2 more files per side)
+  };
+
+  hazards: {
+    beltInset: number;       // horizontal comets spawn on rows beltInset..rows-1-beltInset
+    edgeBandDepth: number;   // vertical flyers spawn in the outer N files on each side
+    blackHoleRadius: number; // king-move distance a black hole pulls from (capped on short boards, see blackHoles.ts)
+    hazardEveryPlies: number; // hazard phase after every N plies (1: every ply, 2: every round)
+    planetOrbitEvery: number; // > 0: planets orbit the star, one square every N hazard ticks
+    cometHorizChance: number; // per hazard phase
+    cometVertChance: number;
+    asteroidVertChance: number;
+    cometDiagChance: number;
+    fastCometChance: number;  // chance any spawned comet is fast
+    fastCometSpeed: number;   // squares per tick for fast comets
+  };
+
+  economy: {
+    asteroidValue: number;   // manufacturing points per asteroid collected
+    planetIncome: number;    // points per uncontested planet held at the end of each round (0: off)
+    startingPoints: number;
+    deployCosts: Record<DeployType, number>;
+    deployZone: DeployZone;
+  };
+
+  // Forbid actions that leave your own king capturable; enables check/checkmate
+  // (hazard kills of a king always end the game regardless)
+  kingSafety: boolean;
+
+  // Draw after this many plies with no piece destroyed (0 = no limit)
+  noCaptureLimit: number;
+};
+
+// Next-id counters owned by the state, so the same seed + actions always give the same ids
+// (simulations on a clone never touch the real game's counters)
+export type IdCounters = {
+  piece: number;
+  hazard: number;
+};
 
 export type GameState = {
   rows: number;
@@ -40,16 +114,84 @@ export type GameState = {
 
   sideToMove: Side;
   ply: number; // increments each player move (white move=1, black move=2, ...)
+  plySinceCapture: number; // plies since any piece was destroyed (move-limit draw)
 
   pieces: Piece[];
   statics: StaticHazard[];
   flyers: FlyingHazard[];
+  pendingSpawns: PendingSpawn[]; // appear on the next hazard phase (already decided, shown as warnings)
+  nebulae: Square[]; // harmless terrain: stops slider rays, halves flyer speed
+  hazardTicks: number; // hazard phases run so far (drives orbit timing)
 
   // Optional: deterministic randomness
   rngSeed: number;
+
+  rules: RulesConfig;
+
+  ids: IdCounters;
 };
 
 export type Move = {
   from: Square;
   to: Square;
+
+  // Pawn reaching the far rank becomes this type (defaults to Queen if omitted)
+  promotion?: PieceType;
 };
+
+// Ships that can be manufactured and deployed
+export type DeployType = "P" | "N" | "B" | "R" | "Q";
+
+// Where new ships may be deployed (see deployZones.ts)
+export type DeployZone = "homeRank" | "firstTwoRanks" | "nearKing" | "nearPlanet";
+
+// Everything a side can do on its turn
+export type Action =
+  | { kind: "move"; from: Square; to: Square; promotion?: PieceType }
+  | { kind: "deploy"; to: Square; type: DeployType; cost: number };
+
+// --- Action results + event log ---
+
+// Why applyMove / applyDeploy refused an action (state is untouched)
+export type IllegalReason =
+  | "noPiece"           // nothing of yours on the from-square
+  | "notYourTurn"
+  | "outOfBounds"
+  | "badPromotion"      // promotion type isn't Q/R/B/N
+  | "badShipType"       // deploy type has no cost in rules.economy.deployCosts
+  | "illegalMove"       // not in the piece's legal destinations
+  | "leavesKingInCheck" // rules.kingSafety
+  | "cannotAfford"
+  | "outsideDeployZone" // rules.economy.deployZone
+  | "squareOccupied";   // deploy target has a piece, static or flyer
+
+/**
+ * Everything that happened while resolving an action, in order.
+ * Pieces and flyers are referenced by id (dead pieces stay in state.pieces).
+ */
+export type GameEvent =
+  | { kind: "move"; pieceId: string; from: Square; to: Square }
+  | { kind: "deploy"; pieceId: string; side: Side; type: PieceType; sq: Square }
+  | { kind: "promotion"; pieceId: string; type: PieceType; sq: Square }
+  | { kind: "capture"; pieceId: string; victimId: string; sq: Square }
+  | { kind: "suicide"; pieceId: string; into: StaticHazardType; sq: Square }
+  | { kind: "cometImpact"; pieceId: string; hazardId: string; sq: Square } // piece flew into a comet
+  | { kind: "asteroidCollected"; side: Side; pieceId: string; hazardId: string; sq: Square }
+  | { kind: "planetIncome"; side: Side; sq: Square; amount: number } // sq: the mined planet
+  | { kind: "starBurn"; pieceId: string; sq: Square }
+  | { kind: "hazardSpawn"; hazardId: string; hazard: FlyingHazardKind; sq: Square; dir: HazardDir }
+  | { kind: "hazardMove"; hazardId: string; hazard: FlyingHazardKind; from: Square; to: Square; path: Square[] } // path: every square entered
+  | { kind: "hazardGone"; hazardId: string; hazard: FlyingHazardKind; sq: Square } // off board / into a static
+  // black hole gravity (see blackHoles.ts)
+  | { kind: "gravityPull"; target: "piece" | "flyer"; id: string; from: Square; to: Square }
+  | { kind: "swallowed"; target: "piece" | "flyer"; id: string; sq: Square }
+  | { kind: "planetMove"; from: Square; to: Square }
+  | { kind: "crushed"; target: "piece" | "flyer"; id: string; sq: Square } // by an orbiting planet
+  | { kind: "wormholeTransit"; target: "piece" | "flyer"; id: string; from: Square; to: Square }
+  // destroyed by another flyer; midway = the two were swapping squares and met between them
+  | { kind: "hazardCollision"; hazardId: string; hazard: FlyingHazardKind; byHazardId: string; from: Square; to: Square; midway: boolean }
+  | { kind: "hazardKill"; pieceId: string; hazardId: string; sq: Square };      // comet hit a piece
+
+export type ActionResult =
+  | { ok: true; events: GameEvent[] }
+  | { ok: false; reason: IllegalReason };
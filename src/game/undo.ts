@@ -0,0 +1,43 @@
+/**
+ * Undo/redo stack of whole snapshots (cheap enough at this board size, and a snapshot
+ * automatically covers the hazard phase and rngSeed advance that followed an action).
+ * Callers snapshot BEFORE an action and record it once the action succeeded.
+ */
+export type UndoStack<T> = {
+  past: T[];
+  future: T[];
+};
+
+export function createUndoStack<T>(): UndoStack<T> {
+  return { past: [], future: [] };
+}
+
+// A new action invalidates anything that could be redone
+export function recordUndo<T>(stack: UndoStack<T>, before: T): void {
+  stack.past.push(before);
+  stack.future.length = 0;
+}
+
+export function canUndo<T>(stack: UndoStack<T>): boolean {
+  return stack.past.length > 0;
+}
+
+export function canRedo<T>(stack: UndoStack<T>): boolean {
+  return stack.future.length > 0;
+}
+
+/** Step back: returns the snapshot to restore, and keeps `current` for redo. */
+export function undo<T>(stack: UndoStack<T>, current: T): T | null {
+  const prev = stack.past.pop();
+  if (prev === undefined) return null;
+  stack.future.push(current);
+  return prev;
+}
+
+/** Step forward again: returns the snapshot to restore, and keeps `current` for undo. */
+export function redo<T>(stack: UndoStack<T>, current: T): T | null {
+  const next = stack.future.pop();
+  if (next === undefined) return null;
+  stack.past.push(current);
+  return next;
+}
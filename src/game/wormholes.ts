@@ -0,0 +1,22 @@
+import type { GameState, Square, StaticHazard } from "./types";
+import { staticAt } from "./indexes";
+
+/**
+ * Wormholes come in linked pairs (same `pair` number):
+ * - A piece ending its move on one entrance comes out on the other
+ *   (destroyed if a piece already stands on the exit).
+ * - A flyer entering one keeps its direction and continues from the exit.
+ * - Pieces may stand on a wormhole square after coming through it.
+ */
+
+export function wormholeExit(state: GameState, entrance: StaticHazard): StaticHazard | undefined {
+  if (entrance.kind !== "wormhole") return undefined;
+  return state.statics.find(h => h.kind === "wormhole" && h.pair === entrance.pair && h !== entrance);
+}
+
+/** Exit square for something entering `sq`, or null if `sq` is not a (linked) wormhole. */
+export function wormholeExitSquare(state: GameState, sq: Square): Square | null {
+  const h = staticAt(state, sq);
+  const exit = h ? wormholeExit(state, h) : undefined;
+  return exit ? { ...exit.pos } : null;
+}
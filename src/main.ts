@@ -1,8 +1,22 @@
 import { createInitialState } from "./game/setup";
-import { applyMove, applyDeploy, mkMove } from "./game/applyMove";
-import type { GameState, Square } from "./game/types";
+import { DEFAULT_RULES, RULES_PRESETS, BOARD_SIZES, HAZARD_CADENCES, DEPLOY_ZONES, type RulesPresetName, type BoardSizeName, type HazardCadenceName, type DeployZoneName } from "./game/rules";
+import { applyMove, applyDeploy, mkMove, runHazardPhase, isHazardPly } from "./game/applyMove";
+import type { GameState, RulesConfig, Square, Move, Action, DeployType, GameEvent } from "./game/types";
+import { cloneState } from "./game/clone";
+import { planetIncome } from "./game/mining";
+import { formatAction } from "./game/notation";
+import { formatFen, parseFen } from "./game/fen";
+import { createRecord, formatRecord, parseRecord, replayRecord, replayFrames, moveLabel, positionChecksum, type RecordMove, type GameRecord, type Replay, type ReplayFrame } from "./game/record";
+import { sameSq, fileName, formationStartFile } from "./game/geom";
+import { isInCheck, kingSquare } from "./game/attacks";
+import { pseudoLegalMoves, isPromotionMove, PROMOTION_TYPES } from "./game/moveGen";
+import { generateLegalActions } from "./game/legalActions";
+import { gameResult, kingResult, positionKey, describeResult, type GameResult } from "./game/result";
+import { createUndoStack, recordUndo, undo, redo, canUndo, canRedo } from "./game/undo";
 import { pieceAt, staticAt, flyerAt } from "./game/indexes";
-import { hazardTick, maybeSpawnHazards } from "./game/hazards";
+import { planFlyerTick, stepForDir } from "./game/hazards";
+import { willBeSwallowed, blackHolePullRadius } from "./game/blackHoles";
+import { willBeCrushed, nextOrbitSquare, ticksUntilOrbitStep } from "./game/orbits";
 
 
 // --- Audio (retro explosion) ---
@@ -17,9 +31,16 @@ function getAudioCtx(): AudioContext {
 
 let AI_DIFFICULTY: "easy" | "medium" | "hard" = "medium";
 
+// Hot seat: Black is played from the UI too and the AI stays idle
+let BLACK_IS_HUMAN = false;
 
+function isHumanSide(side: "W" | "B"): boolean {
+  return side === "W" || BLACK_IS_HUMAN;
+}
+
+// Rules chosen on the start screen (applied on the next reset)
+let RULES: RulesConfig = DEFAULT_RULES;
 
-const FILES = "ABCDEFGHIJKLMNOPQRST";
 
 // --- Piece sprites (pixel art) ---
 const PIECE_W = 16;
@@ -75,26 +96,74 @@ startScreen.innerHTML = `
 
     <p style="opacity: 0.85; line-height: 1.5; margin-bottom: 20px;">
       <strong>Kill the King!</strong><br>
-      No check, castling, or en passant.<br>
+      No castling or en passant; check rules are optional.<br>
       Hitting a comet, planet, or the Sun is fatal.<br>
+      Black holes drag in anything that strays too close.<br>
+      Wormholes link in pairs: go in one, come out the other.<br>
+      Nebulae block lines of fire and slow comets down.<br>
+      Orbiting planets crush whatever lies in their path.<br>
       You may spend <strong>one move</strong> next to the Sun before burning up.<br>
+      Pawns reaching the far rank are promoted.<br>
       Capture asteroids to manufacture new ships.<br>
-      Deploy ships from your factory on your home rank.<br>
-      Beware the edges.<br>
+      Some rules pay you each round for every planet only your ships are next to.<br>
+      Deploy ships from your factory into your deploy zone.<br>
+      Beware the edges: blinking markers show where hazards will appear.<br>
       <strong>Save mankind.</strong>
     </p>
 
+    <label style="display: block; opacity: 0.85; margin-top: 8px;">
+      Rules:
+      <select id="rulesPreset">
+        ${Object.keys(RULES_PRESETS).map(name => `<option value="${name}">${name}</option>`).join("")}
+      </select>
+    </label>
+
+    <label style="display: block; opacity: 0.85; margin-top: 8px;">
+      Board:
+      <select id="boardSize">
+        ${Object.keys(BOARD_SIZES).map(name => `<option value="${name}">${name}</option>`).join("")}
+      </select>
+    </label>
+
+    <label style="display: block; opacity: 0.85; margin-top: 8px;">
+      Hazards move:
+      <select id="hazardCadence">
+        ${Object.keys(HAZARD_CADENCES).map(name => `<option value="${name}">${name}</option>`).join("")}
+      </select>
+    </label>
+
+    <label style="display: block; opacity: 0.85; margin-top: 8px;">
+      Deploy zone:
+      <select id="deployZone">
+        ${Object.keys(DEPLOY_ZONES).map(name => `<option value="${name}">${name}</option>`).join("")}
+      </select>
+    </label>
+
+    <label style="display: block; opacity: 0.85; margin-top: 8px;">
+      Black:
+      <select id="blackPlayer">
+        <option value="ai">computer</option>
+        <option value="human">human (hot seat)</option>
+      </select>
+    </label>
+
+    <label style="display: block; opacity: 0.85; margin-top: 8px; cursor: pointer;">
+      <input type="checkbox" id="ruleKingSafety">
+      Check rules (no moving into check, checkmate ends the game)
+    </label>
+
     <div style="display: flex; gap: 12px; justify-content: center; margin-top: 20px;">
       <button id="startEasy">Start Easy</button>
       <button id="startMedium">Start Medium</button>
       <button id="startHard">Start Hard</button>
+      <button id="resumeGame">Resume</button>
     </div>
   </div>
 `;
 
 app.appendChild(startScreen);
 
-for (const id of ["startEasy", "startMedium", "startHard"]) {
+for (const id of ["startEasy", "startMedium", "startHard", "resumeGame"]) {
   const btn = startScreen.querySelector<HTMLButtonElement>(`#${id}`)!;
   btn.style.padding = "10px 18px";
   btn.style.fontSize = "16px";
@@ -106,26 +175,57 @@ for (const id of ["startEasy", "startMedium", "startHard"]) {
 }
 
 
+const rulesPresetSelect = startScreen.querySelector<HTMLSelectElement>("#rulesPreset")!;
+const kingSafetyCheckbox = startScreen.querySelector<HTMLInputElement>("#ruleKingSafety")!;
+const boardSizeSelect = startScreen.querySelector<HTMLSelectElement>("#boardSize")!;
+const hazardCadenceSelect = startScreen.querySelector<HTMLSelectElement>("#hazardCadence")!;
+const deployZoneSelect = startScreen.querySelector<HTMLSelectElement>("#deployZone")!;
+const blackPlayerSelect = startScreen.querySelector<HTMLSelectElement>("#blackPlayer")!;
+
+// Picking a preset resets the check-rules box, hazard cadence and deploy zone to that preset's settings
+rulesPresetSelect.addEventListener("change", () => {
+  const preset: RulesConfig = RULES_PRESETS[rulesPresetSelect.value as RulesPresetName];
+  kingSafetyCheckbox.checked = preset.kingSafety;
+  const cadence = Object.entries(HAZARD_CADENCES).find(([, n]) => n === preset.hazards.hazardEveryPlies);
+  if (cadence) hazardCadenceSelect.value = cadence[0];
+  const zone = Object.entries(DEPLOY_ZONES).find(([, z]) => z === preset.economy.deployZone);
+  if (zone) deployZoneSelect.value = zone[0];
+});
+
 function startGameWithDifficulty(d: "easy" | "medium" | "hard") {
   AI_DIFFICULTY = d;
+  BLACK_IS_HUMAN = blackPlayerSelect.value === "human";
+  const preset: RulesConfig = RULES_PRESETS[rulesPresetSelect.value as RulesPresetName];
+  RULES = {
+    ...preset,
+    board: BOARD_SIZES[boardSizeSelect.value as BoardSizeName],
+    hazards: { ...preset.hazards, hazardEveryPlies: HAZARD_CADENCES[hazardCadenceSelect.value as HazardCadenceName] },
+    economy: { ...preset.economy, deployZone: DEPLOY_ZONES[deployZoneSelect.value as DeployZoneName] },
+    kingSafety: kingSafetyCheckbox.checked,
+  };
   startScreen.style.display = "none";
 
   resetGame();
+  autosave(); // the new game replaces any saved one
 }
 
 function returnToStartScreen() {
   // Cancel any pending AI actions
   aiToken++;
   aiThinking = false;
+  hazardPhasePending = false;
 
   // Clear gameplay UI state
   selected = null;
   legal = [];
   gameOver = null;
+  promotionPending = null;
   lastBlackMoveTo = null;
 
   // Reset to a fresh game state (optional; also ensures no stray hazards)
+  // The saved game stays, so Resume can pick it up again
   resetGame();
+  updateResumeButton();
 startScreen.style.display = "flex";
   // If start screen isn't currently attached, re-attach it
   //if (!startScreen.isConnected) {
@@ -145,6 +245,9 @@ startScreen.querySelector("#startMedium")!
 startScreen.querySelector("#startHard")!
   .addEventListener("click", () => startGameWithDifficulty("hard"));
 
+const resumeBtn = startScreen.querySelector<HTMLButtonElement>("#resumeGame")!;
+resumeBtn.addEventListener("click", () => resumeGame());
+
 
 
 // Kill browser scrollbars / default margins so the canvas always fits the viewport
@@ -173,7 +276,41 @@ if (!ctx) throw new Error("2D context not available");
 ctx.imageSmoothingEnabled = false;
 
 window.addEventListener("keydown", (e) => {
-  if (e.key.toLowerCase() === "r") {
+  const key = e.key.toLowerCase();
+  const mod = e.ctrlKey || e.metaKey;
+
+  // Replay viewer: arrows step, Home/End jump, Space plays/pauses, S changes speed, V or Escape leaves
+  if (replayView) {
+    const view = replayView;
+    if (key === "arrowleft") replayGoTo(view.index - 1);
+    else if (key === "arrowright") replayGoTo(view.index + 1);
+    else if (key === "home") replayGoTo(0);
+    else if (key === "end") replayGoTo(view.frames.length - 1);
+    else if (key === " ") toggleReplayPlay();
+    else if (key === "s") cycleReplaySpeed();
+    else if (key === "v" || key === "escape") exitReplay();
+    else return;
+    e.preventDefault();
+    return;
+  }
+  if (key === "v" && !mod && startScreen.style.display === "none") {
+    enterReplay();
+    return;
+  }
+
+  // Takeback: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redo
+  if (mod && key === "z") {
+    e.preventDefault();
+    if (e.shiftKey) redoTurn(); else undoTurn();
+    return;
+  }
+  if (mod && key === "y") {
+    e.preventDefault();
+    redoTurn();
+    return;
+  }
+
+  if (key === "r" && !mod) {
     returnToStartScreen();
   }
 });
@@ -190,9 +327,11 @@ window.addEventListener("resize", resizeCanvasToDisplaySize);
 resizeCanvasToDisplaySize();
 
 // --- Game state ---
-const ROWS = 10;
-const COLS = 20;
-let state: GameState = createInitialState(ROWS, COLS, Date.now());
+let gameSeed = Date.now();
+let state: GameState = createInitialState(gameSeed, RULES);
+
+// Every action so far in notation (for Export game); replayed from gameSeed on import
+let moveLog: RecordMove[] = [];
 const AI_THINK_MS = 1500; // tweak this
 
 // AI difficulty toggle (change manually for now)
@@ -206,38 +345,47 @@ const AI_HARD_TOP_N = 20;    // hard search caps candidate actions
 // --- Manufacturing / Deploy UI (v0) ---
 let deployOpen = false;
 
-// Standard chess manufacturing costs
-const DEPLOY_COSTS: Record<"P" | "N" | "B" | "R" | "Q", number> = {
-  P: 1,
-  N: 3,
-  B: 3,
-  R: 5,
-  Q: 9,
-};
-
 // Only 1 ship can be deployed per deploy action.
 // The GUI selects exactly one type at a time:
-let selectedDeployType: "P" | "N" | "B" | "R" | "Q" = "P";
-
-
-// Helper: home row for deployment (rank 1 for White, rank 10 for Black)
-function deployHomeRowFor(side: "W" | "B"): number {
-  return side === "W" ? ROWS - 1 : 0;
-}
+let selectedDeployType: DeployType = "P";
 
 function canDeployNow(s: GameState): boolean {
   if (gameOver) return false;
 
   const side = s.sideToMove;
 
-  // White-only deploy for now (matching your current rules)
-  if (side !== "W") return false;
+  // The AI deploys on its own
+  if (!isHumanSide(side)) return false;
+
+  const cost = s.rules.economy.deployCosts[selectedDeployType];
+  return s.manufacturing[side] >= cost;
+}
 
-  const cost = DEPLOY_COSTS[selectedDeployType];
-  return s.manufacturing.W >= cost;
+// Where the deploy zone is, for the deploy panel ("Click a square ... to deploy.")
+function deployZoneHint(side: "W" | "B"): string {
+  const home = side === "W" ? 1 : state.rows;
+  switch (state.rules.economy.deployZone) {
+    case "homeRank": return `on rank ${home}`;
+    case "firstTwoRanks": return side === "W" ? "on ranks 1–2" : `on ranks ${home - 1}–${home}`;
+    case "nearKing": return "next to your king";
+    case "nearPlanet": return "next to a planet you hold";
+  }
 }
 
 
+// Legal deploy squares for the side to move, memoized so the render loop doesn't regenerate every frame
+let deployTargetsMemo: { key: string; squares: Square[] } | null = null;
+
+function deployTargetsFor(s: GameState, type: DeployType): Square[] {
+  const key = `${positionKey(s)}|${type}`;
+  if (deployTargetsMemo?.key !== key) {
+    const squares = generateLegalActions(s, s.sideToMove)
+      .flatMap(a => a.kind === "deploy" && a.type === type ? [a.to] : []);
+    deployTargetsMemo = { key, squares };
+  }
+  return deployTargetsMemo.squares;
+}
+
 // UI rects (computed from current viewport)
 type Rect = { x: number; y: number; w: number; h: number };
 
@@ -270,11 +418,41 @@ function getUiRects(viewW: number, viewH: number) {
     h: panelH,
   };
 
-  return { factoryB, factoryW, panel };
+  // Promotion picker (smaller, same centering as deploy panel)
+  const promoW = 320;
+  const promoH = 220;
+  const promoPanel: Rect = {
+    x: Math.floor((viewW - promoW) / 2),
+    y: Math.floor((viewH - promoH) / 2),
+    w: promoW,
+    h: promoH,
+  };
+
+  // Takeback buttons between the factories
+  const btnH = 28;
+  const undoBtn: Rect = { x: fx, y: Math.floor(y0 + boardH / 2) - btnH - 4, w: size, h: btnH };
+  const redoBtn: Rect = { x: fx, y: Math.floor(y0 + boardH / 2) + 4, w: size, h: btnH };
+
+  // Game record buttons: export above Undo, import below Redo
+  const exportBtn: Rect = { x: fx, y: undoBtn.y - btnH - 8, w: size, h: btnH };
+  const importBtn: Rect = { x: fx, y: redoBtn.y + btnH + 8, w: size, h: btnH };
+  const replayBtn: Rect = { x: fx, y: importBtn.y + btnH + 8, w: size, h: btnH };
+
+  // Replay controls under the board: first, back, play/pause, forward, last, speed, then the timeline
+  const barY = y0 + boardH + 8;
+  const barH = 24;
+  const ctrl = (i: number, w = 32): Rect => ({ x: x0 + i * 36, y: barY, w, h: barH });
+  const replayControls = {
+    first: ctrl(0), back: ctrl(1), play: ctrl(2), forward: ctrl(3), last: ctrl(4), speed: ctrl(5, 40),
+  };
+  const timelineX = x0 + 5 * 36 + 48;
+  const timeline: Rect = { x: timelineX, y: barY, w: Math.max(40, x0 + boardW - timelineX), h: barH };
+
+  return { factoryB, factoryW, panel, promoPanel, undoBtn, redoBtn, exportBtn, importBtn, replayBtn, replayControls, timeline };
 }
 
 type DeployChoice = {
-  type: "P" | "N" | "B" | "R" | "Q";
+  type: DeployType;
   cost: number;
   rect: Rect;
 };
@@ -286,16 +464,37 @@ function getDeployChoices(panel: Rect): DeployChoice[] {
   const rowH = 30;
   const rowW = panel.w - 32;
 
-  const order: Array<"P" | "N" | "B" | "R" | "Q"> = ["P", "N", "B", "R", "Q"];
+  const order: DeployType[] = ["P", "N", "B", "R", "Q"];
 
   return order.map((t, i) => ({
     type: t,
-    cost: DEPLOY_COSTS[t],
+    cost: state.rules.economy.deployCosts[t],
     rect: { x: left, y: top + i * rowH, w: rowW, h: rowH - 4 },
   }));
 }
 
-function shipLabel(t: "P" | "N" | "B" | "R" | "Q"): string {
+// --- Promotion picker UI ---
+// Set when a human pawn move reaches the far rank; the move is applied once a type is picked.
+let promotionPending: { from: Square; to: Square } | null = null;
+
+type PromotionChoice = {
+  type: DeployType;
+  rect: Rect;
+};
+
+function getPromotionChoices(panel: Rect): PromotionChoice[] {
+  const left = panel.x + 16;
+  const top = panel.y + 56; // below title
+  const rowH = 30;
+  const rowW = panel.w - 32;
+
+  return PROMOTION_TYPES.map((t, i) => ({
+    type: t as DeployType,
+    rect: { x: left, y: top + i * rowH, w: rowW, h: rowH - 4 },
+  }));
+}
+
+function shipLabel(t: DeployType): string {
   switch (t) {
     case "P": return "Pawn";
     case "N": return "Knight";
@@ -319,9 +518,9 @@ function computeBoardLayout(viewW: number, viewH: number) {
   const usableW = Math.max(0, viewW - OUTER_MARGIN * 2 - UI_GUTTER_RIGHT);
   const usableH = Math.max(0, viewH - OUTER_MARGIN * 2);
 
-  const tileSize = Math.floor(Math.min(usableW / COLS, usableH / ROWS));
-  const boardW = tileSize * COLS;
-  const boardH = tileSize * ROWS;
+  const tileSize = Math.floor(Math.min(usableW / state.cols, usableH / state.rows));
+  const boardW = tileSize * state.cols;
+  const boardH = tileSize * state.rows;
 
   // Center the board within the remaining usable area (leaving gutter on the right)
   const contentW = boardW + UI_GUTTER_RIGHT;
@@ -345,210 +544,292 @@ function screenToSquare(x: number, y: number): Square | null {
   return { r, c };
 }
 
-function runHazardPhase(state: GameState) {
-  // This mirrors what normally happens after Black acts
-  hazardTick(state);
-  maybeSpawnHazards(state);
-}
 
+function willAnyCometHitSquareNextTick(state: GameState, sq: Square): boolean {
+  // Same plan the engine uses: every square a comet passes intact (fast comets hit more than one)
+  for (const step of planFlyerTick(state)) {
+    if (step.hz.kind !== "comet") continue; // only comets are lethal
 
-function nextSquareForDir(pos: Square, dir: "N" | "S" | "E" | "W"): Square {
-  switch (dir) {
-    case "E": return { r: pos.r, c: pos.c + 1 };
-    case "W": return { r: pos.r, c: pos.c - 1 };
-    case "N": return { r: pos.r - 1, c: pos.c };
-    case "S": return { r: pos.r + 1, c: pos.c };
+    if (step.path.some(q => sameSq(q, sq))) return true;
   }
+  return state.pendingSpawns.some(sp => sp.kind === "comet" && sameSq(sp.pos, sq));
 }
 
 
-function slideLegalDests(state: GameState, from: Square, dirs: Array<{ dr: number; dc: number }>): Square[] {
-  const out: Square[] = [];
+// Every position reached this game (for threefold repetition), starting position included
+let positionHistory: string[] = [];
 
-  for (const d of dirs) {
-    let r = from.r + d.dr;
-    let c = from.c + d.dc;
+// End of a completed turn (after any hazard phase): record the position, then check for a result
+function recordPositionAndCheckResult(state: GameState): GameResult | null {
+  positionHistory.push(positionKey(state));
+  return gameResult(state, positionHistory);
+}
 
-    while (r >= 0 && r < ROWS && c >= 0 && c < COLS) {
-      const sq = { r, c };
+let gameOver: GameResult | null = null;
+let lastBlackMovedPieceId: string | null = null;
 
-      // Static hazard: slider may move onto it (suicide), but cannot go past
-      if (staticAt(state, sq)) {
-        out.push(sq);
-        break;
-      }
+// A side has acted on a hazard ply but the delayed hazard phase hasn't run yet
+let hazardPhasePending = false;
+
+// --- Takeback (undo/redo) ---
+// Everything needed to put the game back exactly, taken before each human action.
+type GameSnapshot = {
+  state: GameState;
+  positions: string[];
+  gameOver: GameResult | null;
+  lastBlackMoveFrom: Square | null;
+  lastBlackMoveTo: Square | null;
+  lastBlackAction: CandidateAction | null;
+  lastBlackMovedPieceId: string | null;
+  moveLog: RecordMove[];
+};
 
-      // Flying hazard: slider may move onto it (impact), but cannot go past
-      const hz = flyerAt(state, sq);
-      if (hz && hz.alive) {
-        out.push(sq);
-        break;
-      }
+let undoStack = createUndoStack<GameSnapshot>();
 
-      const p = pieceAt(state, sq);
-      if (p) {
-        if (p.side !== state.sideToMove) out.push(sq); // capture
-        break;
-      }
+function takeSnapshot(): GameSnapshot {
+  return {
+    state: cloneState(state),
+    positions: [...positionHistory],
+    gameOver,
+    lastBlackMoveFrom,
+    lastBlackMoveTo,
+    lastBlackAction,
+    lastBlackMovedPieceId,
+    moveLog: [...moveLog],
+  };
+}
 
-      out.push(sq);
-      r += d.dr;
-      c += d.dc;
-    }
-  }
+function restoreSnapshot(snap: GameSnapshot) {
+  state = cloneState(snap.state);
+  positionHistory = [...snap.positions];
+  gameOver = snap.gameOver;
+  lastBlackMoveFrom = snap.lastBlackMoveFrom;
+  lastBlackMoveTo = snap.lastBlackMoveTo;
+  lastBlackAction = snap.lastBlackAction;
+  lastBlackMovedPieceId = snap.lastBlackMovedPieceId;
+  moveLog = [...snap.moveLog];
 
-  return out;
+  selected = null;
+  legal = [];
+  deployOpen = false;
+  promotionPending = null;
+  hazardTrails.length = 0;
 }
 
-function pawnLegalDests(state: GameState, from: Square, side: "W" | "B"): Square[] {
-  const out: Square[] = [];
-  const dir = side === "W" ? -1 : 1;
-  const startRank = side === "W" ? ROWS - 2 : 1;
-
-  // Forward moves (including suicidal moves into hazards)
-const one = { r: from.r + dir, c: from.c };
-if (one.r >= 0 && one.r < ROWS) {
-  const destPiece = pieceAt(state, one);
- // const hz1 = flyerAt(state, one);
-
-  // Pawns may move forward if no piece blocks the square
-  if (!destPiece) {
-    // Empty square OR hazard square are both legal destinations
-    out.push(one);
-
-    // Two-square launch boost from starting rank
-    const two = { r: from.r + 2 * dir, c: from.c };
-    if (
-      from.r === startRank &&
-      two.r >= 0 &&
-      two.r < ROWS
-    ) {
-      const mid = { r: from.r + dir, c: from.c };
-
-      // Mid-square must not contain a piece or static hazard
-      if (
-        !pieceAt(state, mid) &&
-        !staticAt(state, mid)
-      ) {
-        // Destination must not have a piece (hazards OK)
-        if (!pieceAt(state, two)) {
-          out.push(two);
-        }
-      }
-    }
+// Stop the AI: cancels its pending think/hazard timeouts via aiToken.
+// An action whose hazard phase was still waiting gets it applied now (no effects),
+// so the snapshot we keep is a finished turn with the rng advanced exactly once.
+function settleAiForTakeback() {
+  aiToken++;
+  aiThinking = false;
+
+  if (hazardPhasePending) {
+    hazardPhasePending = false;
+    runHazardPhase(state);
+    gameOver = recordPositionAndCheckResult(state);
   }
 }
 
+// Undo goes back to before the last human action (against the AI that also takes back Black's reply)
+function undoTurn() {
+  if (!canUndo(undoStack)) return;
+  settleAiForTakeback();
 
-  // Diagonal captures
-  for (const dc of [-1, 1]) {
-    const diag = { r: from.r + dir, c: from.c + dc };
-    if (diag.r < 0 || diag.r >= ROWS || diag.c < 0 || diag.c >= COLS) continue;
+  const prev = undo(undoStack, takeSnapshot());
+  if (prev) restoreSnapshot(prev);
+  autosave();
+}
 
-    const p = pieceAt(state, diag);
-    if (p && p.side !== side) out.push(diag);
-  }
+function redoTurn() {
+  if (!canRedo(undoStack)) return;
+  settleAiForTakeback();
 
-  return out;
+  const next = redo(undoStack, takeSnapshot());
+  if (!next) return;
+  restoreSnapshot(next);
+  autosave();
+
+  // Redoing into a position where Black was still to move: let the AI pick it up again
+  runBlackAIIfNeeded();
 }
 
-function knightLegalDests(state: GameState, from: Square): Square[] {
-  const out: Square[] = [];
-  const deltas = [
-    { dr: -2, dc: -1 }, { dr: -2, dc: 1 },
-    { dr: -1, dc: -2 }, { dr: -1, dc: 2 },
-    { dr: 1, dc: -2 },  { dr: 1, dc: 2 },
-    { dr: 2, dc: -1 },  { dr: 2, dc: 1 },
-  ];
+function resetGame(seed = Date.now()) {
+  gameSeed = seed;
+  state = createInitialState(seed, RULES);
+  moveLog = [];
+  positionHistory = [positionKey(state)];
+  undoStack = createUndoStack<GameSnapshot>();
+  hazardPhasePending = false;
+  selected = null;
+  legal = [];
+  gameOver = null;
+  promotionPending = null;
 
-  for (const d of deltas) {
-    const sq = { r: from.r + d.dr, c: from.c + d.dc };
-    if (sq.r < 0 || sq.r >= ROWS || sq.c < 0 || sq.c >= COLS) continue;
+    lastBlackMoveFrom = null;
+  lastBlackMoveTo = null;
+  hazardTrails.length = 0;
+  
 
-    // Friendly piece blocks destination
-    const p = pieceAt(state, sq);
-    if (p && p.side === state.sideToMove) continue;
+  lastBlackMoveTo = null;
+  aiThinking = false;
+  aiToken++; // stale think/hazard timeouts from the old game must not fire
+}
 
-    // Otherwise it's selectable (empty, enemy capture, static hazard suicide, flying hazard impact)
-    out.push(sq);
-  }
+// --- Game records (export / import) ---
 
-  return out;
+function downloadText(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
-function hazardNextSquare(pos: Square, dir: "N" | "S" | "E" | "W"): Square {
-  switch (dir) {
-    case "N": return { r: pos.r - 1, c: pos.c };
-    case "S": return { r: pos.r + 1, c: pos.c };
-    case "E": return { r: pos.r, c: pos.c + 1 };
-    case "W": return { r: pos.r, c: pos.c - 1 };
-  }
+// Save the game so far (a pending hazard phase is part of the last move when replayed)
+function exportGame() {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, ".");
+  const rec = createRecord(gameSeed, state.rules, moveLog, gameOver, date);
+  downloadText(`solar-war-${gameSeed}.txt`, formatRecord(rec));
 }
 
-function willAnyCometHitSquareNextTick(state: GameState, sq: Square): boolean {
-  for (const hz of state.flyers) {
-    if (!hz.alive) continue;
-    if (hz.kind !== "comet") continue; // only comets are lethal
+// Replay a record from its seed and continue from where it ends (takeback history starts fresh)
+function importGame(text: string) {
+  let rec: GameRecord;
+  let replay: Replay;
+  try {
+    rec = parseRecord(text);
+    replay = replayRecord(rec);
+  } catch (e) {
+    window.alert(`Could not import game: ${(e as Error).message}`);
+    return;
+  }
 
-    const nxt = hazardNextSquare(hz.pos, hz.dir);
-    if (nxt.r === sq.r && nxt.c === sq.c) return true;
+  const final = replay.states[replay.states.length - 1];
+  if (rec.checksum && positionChecksum(final) !== rec.checksum) {
+    window.alert("This record replays to a different final position than when it was saved (the rules have probably changed). Loading it anyway.");
   }
-  return false;
-}
 
+  RULES = rec.rules;
+  resetGame(rec.seed);
+  state = cloneState(final);
+  positionHistory = replay.states.map(positionKey);
+  moveLog = rec.moves.map(m => ({ ...m }));
+  gameOver = gameResult(state, positionHistory);
+  startScreen.style.display = "none";
+  autosave();
 
-function kingLegalDests(state: GameState, from: Square): Square[] {
-  const out: Square[] = [];
+  runBlackAIIfNeeded();
+}
 
-  for (let dr = -1; dr <= 1; dr++) {
-    for (let dc = -1; dc <= 1; dc++) {
-      if (dr === 0 && dc === 0) continue;
-      const sq = { r: from.r + dr, c: from.c + dc };
-      if (sq.r < 0 || sq.r >= ROWS || sq.c < 0 || sq.c >= COLS) continue;
+const importInput = document.createElement("input");
+importInput.type = "file";
+importInput.accept = ".txt,.pgn,text/plain";
+importInput.style.display = "none";
+app.appendChild(importInput);
+importInput.addEventListener("change", async () => {
+  const file = importInput.files?.[0];
+  importInput.value = ""; // picking the same file again still fires "change"
+  if (file) importGame(await file.text());
+});
 
-      const p = pieceAt(state, sq);
-      if (p && p.side === state.sideToMove) continue;
+// --- Autosave ---
+// The unfinished game lives in localStorage, rewritten after every ply and hazard phase,
+// so a reload can Resume it. Takeback history isn't kept: a resumed game starts a fresh undo stack.
+const AUTOSAVE_KEY = "solarWar.autosave";
+
+type SavedGame = {
+  version: 1;
+  position: string; // formatFen
+  seed: number;
+  moves: RecordMove[];
+  positions: string[];
+  hazardPhasePending: boolean; // action applied, its delayed hazard phase not run yet
+  difficulty: "easy" | "medium" | "hard";
+  blackIsHuman: boolean;
+  lastBlackMoveFrom: Square | null;
+  lastBlackMoveTo: Square | null;
+  lastBlackAction: CandidateAction | null;
+  lastBlackMovedPieceId: string | null;
+};
 
-      out.push(sq);
+function autosave() {
+  try {
+    // Finished games aren't resumable
+    if (gameOver) {
+      localStorage.removeItem(AUTOSAVE_KEY);
+      return;
     }
-  }
 
-  return out;
+    const save: SavedGame = {
+      version: 1,
+      position: formatFen(state),
+      seed: gameSeed,
+      moves: moveLog,
+      positions: positionHistory,
+      hazardPhasePending,
+      difficulty: AI_DIFFICULTY,
+      blackIsHuman: BLACK_IS_HUMAN,
+      lastBlackMoveFrom,
+      lastBlackMoveTo,
+      lastBlackAction,
+      lastBlackMovedPieceId,
+    };
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(save));
+  } catch {
+    // Storage full or disabled: the game just won't survive a reload
+  }
 }
 
-function isKingAlive(state: GameState, side: "W" | "B"): boolean {
-  return state.pieces.some(p => p.alive && p.side === side && p.type === "K");
+function loadAutosave(): SavedGame | null {
+  try {
+    const raw = localStorage.getItem(AUTOSAVE_KEY);
+    if (!raw) return null;
+    const save = JSON.parse(raw) as SavedGame;
+    return save.version === 1 ? save : null;
+  } catch {
+    return null;
+  }
 }
 
-function winnerIfAny(state: GameState): "W" | "B" | null {
-  const wAlive = isKingAlive(state, "W");
-  const bAlive = isKingAlive(state, "B");
-  if (wAlive && bAlive) return null;
-  if (wAlive && !bAlive) return "W";
-  if (!wAlive && bAlive) return "B";
-  // extremely rare: both dead same tick (e.g. hazards) – call it a draw later, but for now:
-  return null;
+function updateResumeButton() {
+  resumeBtn.style.display = loadAutosave() ? "" : "none";
 }
 
-let gameOver: { winner: "W" | "B" } | null = null;
-let lastBlackMovedPieceId: string | null = null;
-
-function resetGame(seed = Date.now()) {
-  state = createInitialState(ROWS, COLS, seed);
-  selected = null;
-  legal = [];
-  gameOver = null;
+function resumeGame() {
+  const save = loadAutosave();
+  let saved: GameState;
+  try {
+    if (!save) throw new Error("no saved game");
+    saved = parseFen(save.position);
+  } catch {
+    localStorage.removeItem(AUTOSAVE_KEY);
+    updateResumeButton();
+    return;
+  }
 
-    lastBlackMoveFrom = null;
-  lastBlackMoveTo = null;
-  hazardTrails.length = 0;
-  
+  AI_DIFFICULTY = save.difficulty;
+  BLACK_IS_HUMAN = save.blackIsHuman;
+  RULES = saved.rules;
+  resetGame(save.seed);
+
+  state = saved;
+  positionHistory = [...save.positions];
+  moveLog = save.moves.map(m => ({ ...m }));
+  lastBlackMoveFrom = save.lastBlackMoveFrom;
+  lastBlackMoveTo = save.lastBlackMoveTo;
+  lastBlackAction = save.lastBlackAction;
+  lastBlackMovedPieceId = save.lastBlackMovedPieceId;
+  startScreen.style.display = "none";
 
-  lastBlackMoveTo = null;
-  aiThinking = false;
-  aiToken = 0;
+  // A half-finished turn gets its hazard phase now, exactly as if the timeout had fired;
+  // otherwise Black's AI picks up if it was thinking
+  if (save.hazardPhasePending) scheduleHazardPhase(aiToken);
+  else runBlackAIIfNeeded();
 }
 
+updateResumeButton();
+
 
 
 // --- Input state ---
@@ -564,6 +845,7 @@ let lastBlackAction: CandidateAction | null = null;
 type HazardTrail = {
   from: Square;
   to: Square;
+  mid: Square[]; // squares passed in between (fast flyers, wormholes)
   kind: "comet" | "asteroid";
   t0: number;
   ttl: number;
@@ -589,26 +871,15 @@ const explosions: Explosion[] = [];
 // Black AI (v2: deploy + manufacturing-aware)
 // --------------------
 
-type CandidateMove = { from: Square; to: Square };
-type CandidateAction =
-  | { kind: "move"; from: Square; to: Square }
-  | { kind: "deploy"; to: Square; type: "P" | "N" | "B" | "R" | "Q"; cost: number };
+type CandidateAction = Action;
 
   
 function willHazardHitSquare(state: GameState, sq: Square): boolean {
-  for (const hz of state.flyers) {
-    if (!hz.alive) continue;
-
-    let dr = 0, dc = 0;
-    if (hz.dir === "N") dr = -1;
-    if (hz.dir === "S") dr = 1;
-    if (hz.dir === "E") dc = 1;
-    if (hz.dir === "W") dc = -1;
-
-    const next = { r: hz.pos.r + dr, c: hz.pos.c + dc };
-    if (next.r === sq.r && next.c === sq.c) return true;
+  for (const step of planFlyerTick(state)) {
+    if (step.path.some(q => sameSq(q, sq))) return true;
   }
-  return false;
+  // Forecast spawns appear right on their square
+  return state.pendingSpawns.some(sp => sameSq(sp.pos, sq));
 }
 
 
@@ -618,39 +889,6 @@ function isExactReverse(prev: CandidateAction, cur: CandidateAction): boolean {
          prev.to.r === cur.from.r && prev.to.c === cur.from.c;
 }
 
-function cloneState(s: GameState): GameState {
-  return {
-    rows: s.rows,
-    cols: s.cols,
-    sideToMove: s.sideToMove,
-    ply: s.ply,
-    rngSeed: s.rngSeed,
-    manufacturing: { W: s.manufacturing.W, B: s.manufacturing.B },
-
-    pieces: s.pieces.map(p => ({
-      id: p.id,
-      side: p.side,
-      type: p.type,
-      pos: { r: p.pos.r, c: p.pos.c },
-      alive: p.alive,
-      heated: p.heated,
-    })),
-
-    statics: s.statics.map(h => ({
-      kind: h.kind,
-      pos: { r: h.pos.r, c: h.pos.c },
-    })),
-
-    flyers: s.flyers.map(hz => ({
-      id: hz.id,
-      kind: hz.kind,
-      pos: { r: hz.pos.r, c: hz.pos.c },
-      dir: hz.dir,
-      alive: hz.alive,
-    })),
-  };
-}
-
 function isKingAliveLocal(state: GameState, side: "W" | "B"): boolean {
   return state.pieces.some(p => p.alive && p.side === side && p.type === "K");
 }
@@ -695,12 +933,15 @@ function evaluateForBlack(state: GameState): number {
   // Manufacturing advantage matters a bit (small weight)
   score += 0.30 * (state.manufacturing.B - state.manufacturing.W);
 
+  // Held planets keep paying every round: worth more than a point in hand
+  score += 0.60 * (planetIncome(state, "B") - planetIncome(state, "W"));
+
   // Penalize Black pieces standing in imminent hazard paths
 for (const p of state.pieces) {
   if (!p.alive) continue;
   if (p.side !== "B") continue;
 
-  if (willHazardHitSquare(state, p.pos)) {
+  if (willHazardHitSquare(state, p.pos) || willBeSwallowed(state, p.pos) || willBeCrushed(state, p.pos)) {
     score -= 2.5; // strong "get out of the way" signal
   }
 }
@@ -728,7 +969,7 @@ for (const p of state.pieces) {
   score += 0.03 * (mobB - mobW); // tweak 0.02–0.06
 
   // Light "development" nudge: encourage Black pieces (not pawns/king) off back rank
-  // Internal row 0 is Black's back rank (rank 10).
+  // Internal row 0 is Black's back rank (the top rank).
   for (const p of state.pieces) {
     if (!p.alive) continue;
 
@@ -785,44 +1026,7 @@ for (const p of state.pieces) {
 }
 
 function countLegalMovesForSide(state: GameState, side: "W" | "B"): number {
-  const saved = state.sideToMove;
-  state.sideToMove = side;
-
-  let count = 0;
-
-  for (const p of state.pieces) {
-    if (!p.alive) continue;
-    if (p.side !== side) continue;
-
-    const from = { r: p.pos.r, c: p.pos.c };
-    let dests: Square[] = [];
-
-    if (p.type === "R") {
-      dests = slideLegalDests(state, from, [
-        { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
-      ]);
-    } else if (p.type === "B") {
-      dests = slideLegalDests(state, from, [
-        { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
-      ]);
-    } else if (p.type === "Q") {
-      dests = slideLegalDests(state, from, [
-        { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
-        { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
-      ]);
-    } else if (p.type === "P") {
-      dests = pawnLegalDests(state, from, side);
-    } else if (p.type === "N") {
-      dests = knightLegalDests(state, from);
-    } else if (p.type === "K") {
-      dests = kingLegalDests(state, from);
-    }
-
-    count += dests.length;
-  }
-
-  state.sideToMove = saved;
-  return count;
+  return pseudoLegalMoves(state, side).length;
 }
 
 function sqKey(sq: Square): string {
@@ -830,49 +1034,16 @@ function sqKey(sq: Square): string {
 }
 
 function attackedCaptureSquaresBySide(state: GameState, attacker: "W" | "B"): Set<string> {
-  const saved = state.sideToMove;
-  state.sideToMove = attacker;
-
   const out = new Set<string>();
 
-  for (const p of state.pieces) {
-    if (!p.alive) continue;
-    if (p.side !== attacker) continue;
-
-    const from = { r: p.pos.r, c: p.pos.c };
-    let dests: Square[] = [];
-
-    if (p.type === "R") {
-      dests = slideLegalDests(state, from, [
-        { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
-      ]);
-    } else if (p.type === "B") {
-      dests = slideLegalDests(state, from, [
-        { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
-      ]);
-    } else if (p.type === "Q") {
-      dests = slideLegalDests(state, from, [
-        { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
-        { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
-      ]);
-    } else if (p.type === "N") {
-      dests = knightLegalDests(state, from);
-    } else if (p.type === "K") {
-      dests = kingLegalDests(state, from);
-    } else if (p.type === "P") {
-      dests = pawnLegalDests(state, from, attacker);
-    }
-
-    // Only count squares that contain an enemy piece (actual captures next move)
-    for (const to of dests) {
-      const victim = pieceAt(state, to);
-      if (victim && victim.alive && victim.side !== attacker) {
-        out.add(sqKey(to));
-      }
+  // Only count squares that contain an enemy piece (actual captures next move)
+  for (const m of pseudoLegalMoves(state, attacker)) {
+    const victim = pieceAt(state, m.to);
+    if (victim && victim.alive && victim.side !== attacker) {
+      out.add(sqKey(m.to));
     }
   }
 
-  state.sideToMove = saved;
   return out;
 }
 
@@ -893,71 +1064,12 @@ function threatenedMaterialValue(state: GameState, victimSide: "W" | "B"): numbe
 }
 
 
-function legalMovesForBlack(state: GameState): CandidateMove[] {
-  if (state.sideToMove !== "B") return [];
-  const moves: CandidateMove[] = [];
-
-  for (const p of state.pieces) {
-    if (!p.alive) continue;
-    if (p.side !== "B") continue;
-
-    const from = { r: p.pos.r, c: p.pos.c };
-    let dests: Square[] = [];
-
-    if (p.type === "R") {
-      dests = slideLegalDests(state, from, [
-        { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
-      ]);
-    } else if (p.type === "B") {
-      dests = slideLegalDests(state, from, [
-        { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
-      ]);
-    } else if (p.type === "Q") {
-      dests = slideLegalDests(state, from, [
-        { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
-        { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
-      ]);
-    } else if (p.type === "P") {
-      dests = pawnLegalDests(state, from, "B");
-    } else if (p.type === "N") {
-      dests = knightLegalDests(state, from);
-    } else if (p.type === "K") {
-      dests = kingLegalDests(state, from);
-    }
-
-    for (const to of dests) moves.push({ from, to });
-  }
-
-  return moves;
-}
-
-function deploySquaresForBlack(state: GameState): Square[] {
-  // Black home rank = rank 10 => internal row 0
-  const r = 0;
-  const out: Square[] = [];
-  for (let c = 0; c < COLS; c++) {
-    const sq = { r, c };
-    if (pieceAt(state, sq)) continue;
-    if (staticAt(state, sq)) continue;
-    const hz = flyerAt(state, sq);
-    if (hz && hz.alive) continue;
-    out.push(sq);
-  }
-  return out;
-}
-
-function pickDeployTypesFor(mp: number): Array<"Q" | "R" | "N" | "B" | "P"> {
-  // Prefer strongest affordable first
-  const order: Array<"Q" | "R" | "N" | "B" | "P"> = ["Q", "R", "N", "B", "P"];
-  return order.filter(t => mp >= DEPLOY_COSTS[t]);
-}
-
 function preferredDeploySquares(state: GameState, squares: Square[]): Square[] {
-  // Prefer near Black's starting file "G" (A=0 => G=6)
-  const g = 6;
+  // Prefer near Black's starting file (G on the standard board)
+  const g = formationStartFile(state.cols, state.rules.setup.backRank.length);
 
-  // Also gently prefer towards board center (COLS/2)
-  const mid = (COLS - 1) / 2;
+  // Also gently prefer towards board center (cols/2)
+  const mid = (state.cols - 1) / 2;
 
   return [...squares].sort((a, b) => {
     const da = Math.abs(a.c - g) + 0.25 * Math.abs(a.c - mid);
@@ -969,28 +1081,19 @@ function preferredDeploySquares(state: GameState, squares: Square[]): Square[] {
 function legalActionsForBlack(state: GameState): CandidateAction[] {
   if (state.sideToMove !== "B") return [];
 
-  const actions: CandidateAction[] = [];
+  const all = generateLegalActions(state, "B");
 
   // Normal moves
-  for (const m of legalMovesForBlack(state)) {
-    actions.push({ kind: "move", from: m.from, to: m.to });
-  }
+  const actions: CandidateAction[] = all.filter(a => a.kind === "move");
 
-  // Deploy (if affordable)
-  const mp = state.manufacturing.B;
-  const types = pickDeployTypesFor(mp);
-  if (types.length > 0) {
-    const squares = preferredDeploySquares(state, deploySquaresForBlack(state));
-    // Keep this bounded so we don't simulate too many.
-    // We'll consider up to 8 best squares per type.
-    const bestSquares = squares.slice(0, 8);
+  // Deploys: keep this bounded so we don't simulate too many.
+  // We'll consider up to 8 best squares per type.
+  const deploySquares = all.flatMap(a => a.kind === "deploy" && a.type === "P" ? [a.to] : []);
+  const bestSquares = preferredDeploySquares(state, deploySquares).slice(0, 8);
 
-    for (const t of types) {
-      const cost = DEPLOY_COSTS[t];
-      for (const sq of bestSquares) {
-        actions.push({ kind: "deploy", to: sq, type: t, cost });
-      }
-    }
+  for (const a of all) {
+    if (a.kind !== "deploy") continue;
+    if (bestSquares.some(sq => sq.r === a.to.r && sq.c === a.to.c)) actions.push(a);
   }
 
   return actions;
@@ -1007,9 +1110,9 @@ function chooseBlackAction(state: GameState): CandidateAction | null {
     const sim = cloneState(state);
 
     if (a.kind === "move") {
-      applyMove(sim, mkMove(a.from, a.to), "tickOnly"); // fair: no spawn peeking
+      applyMove(sim, mkMove(a.from, a.to, a.promotion), "tickOnly"); // fair: public spawn forecast only
     } else {
-      applyDeploy(sim, a.to, a.type, a.cost, "tickOnly"); // fair: no spawn peeking
+      applyDeploy(sim, a.to, a.type, "tickOnly"); // fair: public spawn forecast only
     }
 
     return evaluateForBlack(sim);
@@ -1071,46 +1174,18 @@ scoredBlack.sort((x, y) => y.s - x.s);
     // Sim after Black
     const sim1 = cloneState(state);
     if (item.a.kind === "move") {
-      applyMove(sim1, mkMove(item.a.from, item.a.to), "tickOnly");
+      applyMove(sim1, mkMove(item.a.from, item.a.to, item.a.promotion), "tickOnly");
     } else {
-      applyDeploy(sim1, item.a.to, item.a.type, item.a.cost, "tickOnly");
+      applyDeploy(sim1, item.a.to, item.a.type, "tickOnly");
     }
 
     // Now it's White to move in sim1. Pick White's best reply (1-ply), capped.
-    const whiteMoves: CandidateMove[] = [];
-    if (sim1.sideToMove === "W") {
-      for (const p of sim1.pieces) {
-        if (!p.alive || p.side !== "W") continue;
-        const from = { r: p.pos.r, c: p.pos.c };
-        let dests: Square[] = [];
-
-        if (p.type === "R") {
-          dests = slideLegalDests(sim1, from, [
-            { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
-          ]);
-        } else if (p.type === "B") {
-          dests = slideLegalDests(sim1, from, [
-            { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
-          ]);
-        } else if (p.type === "Q") {
-          dests = slideLegalDests(sim1, from, [
-            { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
-            { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 },
-          ]);
-        } else if (p.type === "P") {
-          dests = pawnLegalDests(sim1, from, "W");
-        } else if (p.type === "N") {
-          dests = knightLegalDests(sim1, from);
-        } else if (p.type === "K") {
-          dests = kingLegalDests(sim1, from);
-        }
-
-        for (const to of dests) whiteMoves.push({ from, to });
-      }
-    }
+    const whiteReplies = sim1.sideToMove === "W"
+      ? generateLegalActions(sim1, "W").filter(a => a.kind === "move")
+      : [];
 
     // If White has no moves, just evaluate sim1
-    if (whiteMoves.length === 0) {
+    if (whiteReplies.length === 0) {
       const s = evaluateForBlack(sim1);
       if (s > bestS) { bestS = s; bestA = item.a; }
       continue;
@@ -1118,9 +1193,9 @@ scoredBlack.sort((x, y) => y.s - x.s);
 
     // Score White replies: White tries to MINIMIZE Black's eval.
     // Cap to top N by "damage" (i.e., lowest black eval).
-    const scoredWhite = whiteMoves.map(m => {
+    const scoredWhite = whiteReplies.map(m => {
       const sim2 = cloneState(sim1);
-      applyMove(sim2, mkMove(m.from, m.to), "tickOnly");
+      if (m.kind === "move") applyMove(sim2, mkMove(m.from, m.to, m.promotion), "tickOnly");
       return { m, s: evaluateForBlack(sim2) };
     });
 
@@ -1144,6 +1219,7 @@ scoredBlack.sort((x, y) => y.s - x.s);
 function runBlackAIIfNeeded() {
   if (gameOver) return;
   if (state.sideToMove !== "B") return;
+  if (BLACK_IS_HUMAN) return;
   if (aiThinking) return;
 
   aiThinking = true;
@@ -1165,109 +1241,76 @@ function runBlackAIIfNeeded() {
 }
 
 
-    // Snapshot A: alive pieces BEFORE Black action
-    const aliveBeforeAction = new Set(
-      state.pieces.filter(p => p.alive).map(p => p.id)
-    );
-
-    // Flyer snapshot for trails (if you're using it)
-    const flyersBefore = state.flyers.map(hz => ({
-      id: hz.id,
-      kind: hz.kind,
-      pos: { r: hz.pos.r, c: hz.pos.c },
-      dir: hz.dir,
-      alive: hz.alive,
-    }));
-
     // Apply Black action WITHOUT hazard phase (so we can delay hazards)
     if (a.kind === "move") {
       lastBlackMoveFrom = { r: a.from.r, c: a.from.c };
       lastBlackMoveTo = { r: a.to.r, c: a.to.c };
-      applyMove(state, mkMove(a.from, a.to), "none");
     } else {
       lastBlackMoveFrom = { r: a.to.r, c: a.to.c };
       lastBlackMoveTo = { r: a.to.r, c: a.to.c };
-      applyDeploy(state, a.to, a.type, a.cost, "none");
     }
+    const text = formatAction(state, a);
+    const res = a.kind === "move"
+      ? applyMove(state, mkMove(a.from, a.to, a.promotion), "none")
+      : applyDeploy(state, a.to, a.type, "none");
+    if (!res.ok) { aiThinking = false; return; }
+    moveLog.push({ text });
 
-    // Explosions: deaths caused immediately by Black action
-    for (const p of state.pieces) {
-      if (aliveBeforeAction.has(p.id) && !p.alive) {
-        spawnExplosion(p.pos);
-      }
-    }
-
-    // Win check after Black action (before hazard phase)
-    const winAfterAction = winnerIfAny(state);
-    if (winAfterAction) {
-      gameOver = { winner: winAfterAction };
-      aiThinking = false;
-      return;
-    }
-
-    // Snapshot B: alive pieces AFTER Black action, BEFORE hazards
-    const aliveBeforeHazards = new Set(
-      state.pieces.filter(p => p.alive).map(p => p.id)
-    );
-
-    // Hazard phase runs later so you can see the position after Black acts
-    window.setTimeout(() => {
-      if (gameOver) return;
-
-      runHazardPhase(state);
-
-      // Trails (optional): compare flyersBefore to current flyers
-      const afterById = new Map(state.flyers.map(hz => [hz.id, { r: hz.pos.r, c: hz.pos.c }]));
-      const nowT = performance.now();
-
-      for (const fb of flyersBefore) {
-        if (!fb.alive) continue;
-
-        const afterPos = afterById.get(fb.id);
-        if (afterPos) {
-          if (afterPos.r !== fb.pos.r || afterPos.c !== fb.pos.c) {
-            hazardTrails.push({
-              from: { ...fb.pos },
-              to: { ...afterPos },
-              kind: fb.kind,
-              t0: nowT,
-              ttl: 900,
-            });
-          }
-        } else {
-          const to = nextSquareForDir(fb.pos, fb.dir);
-          hazardTrails.push({
-            from: { ...fb.pos },
-            to,
-            kind: fb.kind,
-            t0: nowT,
-            ttl: 900,
-          });
-        }
-      }
-
-      // Explosions: deaths caused by hazard phase only
-      for (const p of state.pieces) {
-        if (aliveBeforeHazards.has(p.id) && !p.alive) {
-          spawnExplosion(p.pos);
-        }
-      }
-
-      // Win check after hazard phase (hazards can kill kings)
-      const winAfterHazards = winnerIfAny(state);
-      if (winAfterHazards) gameOver = { winner: winAfterHazards };
-
-    }, BLACK_HAZARD_DELAY_MS);
+    // Explosions etc. caused immediately by Black action
+    playEvents(res.events);
 
     aiThinking = false;
+    finishTurn(myToken);
   }, AI_THINK_MS);
 }
 
+// Pause between an action and its hazard phase (for debugging / clarity)
+const HAZARD_DELAY_MS = 700; // try 500–1000
+
+/**
+ * End of a turn whose action was applied without hazards ("none").
+ * On a hazard ply (rules.hazards.hazardEveryPlies) the hazard phase runs later,
+ * so you can see the position after the action first; whichever side acted.
+ * Then the position is recorded and Black's AI picks up if it's now to move.
+ */
+function finishTurn(myToken: number) {
+  // Win check after the action (before any hazard phase)
+  const winAfterAction = kingResult(state);
+  if (winAfterAction) {
+    gameOver = winAfterAction;
+    autosave();
+    return;
+  }
+
+  if (!isHazardPly(state.rules, state.ply - 1)) {
+    gameOver = recordPositionAndCheckResult(state);
+    autosave();
+    if (!gameOver) runBlackAIIfNeeded();
+    return;
+  }
 
+  scheduleHazardPhase(myToken);
+}
 
+// The delayed hazard phase of an action that's already applied (also picked up again by Resume)
+function scheduleHazardPhase(myToken: number) {
+  hazardPhasePending = true;
+  autosave();
 
-// Pause between Black move and hazard phase (for debugging / clarity)
-const BLACK_HAZARD_DELAY_MS = 700; // try 500–1000
+  window.setTimeout(() => {
+    if (myToken !== aiToken) return; // takeback/reset already settled it
+    if (gameOver) return;
+    hazardPhasePending = false;
+
+    // Trails + explosions from the hazard phase only
+    playEvents(runHazardPhase(state));
+
+    // Game-over check after hazard phase (hazards can kill kings; the side to move may now be mated)
+    gameOver = recordPositionAndCheckResult(state);
+    autosave();
+    if (!gameOver) runBlackAIIfNeeded();
+  }, HAZARD_DELAY_MS);
+}
 
 
 canvas.addEventListener("click", (ev) => {
@@ -1278,15 +1321,60 @@ canvas.addEventListener("click", (ev) => {
   // UI hit-testing uses viewport units
   const viewW = rect.width;
   const viewH = rect.height;
-    const { factoryB, factoryW, panel } = getUiRects(viewW, viewH);
+    const { factoryB, factoryW, panel, promoPanel, undoBtn, redoBtn, exportBtn, importBtn, replayBtn, replayControls } = getUiRects(viewW, viewH);
+
+  // Replay viewer: only its own controls (the timeline is handled on mousedown)
+  if (pointInRect(x, y, replayBtn)) {
+    if (replayView) exitReplay(); else enterReplay();
+    return;
+  }
+  if (replayView) {
+    const view = replayView;
+    if (pointInRect(x, y, replayControls.first)) replayGoTo(0);
+    else if (pointInRect(x, y, replayControls.back)) replayGoTo(view.index - 1);
+    else if (pointInRect(x, y, replayControls.play)) toggleReplayPlay();
+    else if (pointInRect(x, y, replayControls.forward)) replayGoTo(view.index + 1);
+    else if (pointInRect(x, y, replayControls.last)) replayGoTo(view.frames.length - 1);
+    else if (pointInRect(x, y, replayControls.speed)) cycleReplaySpeed();
+    return;
+  }
+
+  // Takeback and record buttons work even after the game has ended
+  if (pointInRect(x, y, undoBtn)) { undoTurn(); return; }
+  if (pointInRect(x, y, redoBtn)) { redoTurn(); return; }
+  if (pointInRect(x, y, exportBtn)) { exportGame(); return; }
+  if (pointInRect(x, y, importBtn)) { importInput.click(); return; }
 
   // If game over, ignore input
   if (gameOver) return;
 
-  // Factory click opens deploy UI
-  // (White-only deploy still enforced elsewhere; black factory just does nothing for now)
+  // Hazards still to move: wait for the hazard phase before the next action
+  if (hazardPhasePending) return;
+
+  // The AI's turn: nothing to click
+  if (!isHumanSide(state.sideToMove)) return;
+
+  // Promotion picker is modal: pick a type to finish the move, click outside to cancel
+  if (promotionPending) {
+    const pending = promotionPending;
+    promotionPending = null;
+
+    if (!pointInRect(x, y, promoPanel)) return;
+
+    for (const ch of getPromotionChoices(promoPanel)) {
+      if (!pointInRect(x, y, ch.rect)) continue;
+      applyHumanMove(mkMove(pending.from, pending.to, ch.type));
+      return;
+    }
+
+    // Clicked inside panel but not on a row: keep it open
+    promotionPending = pending;
+    return;
+  }
+
+  // Factory click opens deploy UI (only the factory of the side to move does anything)
   if (pointInRect(x, y, factoryW) || pointInRect(x, y, factoryB)) {
-    if (state.sideToMove === "W") {
+    if (pointInRect(x, y, state.sideToMove === "W" ? factoryW : factoryB)) {
       deployOpen = !deployOpen;
       selected = null;
       legal = [];
@@ -1299,10 +1387,7 @@ canvas.addEventListener("click", (ev) => {
    if (deployOpen) {
     // Clicking inside the panel: select which ship to deploy (only one at a time)
     if (pointInRect(x, y, panel)) {
-      // White-only deploy UI for now
-      if (state.sideToMove !== "W") return;
-
-      const mp = state.manufacturing.W;
+      const mp = state.manufacturing[state.sideToMove];
       const choices = getDeployChoices(panel);
 
       for (const ch of choices) {
@@ -1328,52 +1413,32 @@ canvas.addEventListener("click", (ev) => {
       return;
     }
 
-    // Only White deploys for now
-    if (state.sideToMove !== "W") {
+    // Must be a legal deploy square (in the deploy zone, empty)
+    if (!deployTargetsFor(state, selectedDeployType).some(t => sameSq(t, sq))) {
       deployOpen = false;
       return;
     }
 
-    // Must be on White home rank (rank 1 => internal row ROWS-1)
-    const homeRow = deployHomeRowFor("W");
-    if (sq.r !== homeRow) {
-      deployOpen = false;
-      return;
-    }
-
-    // Snapshot for explosion detection
-    const aliveBefore = new Set(
-      state.pieces.filter(p => p.alive).map(p => p.id)
-    );
-
       const chosenType = selectedDeployType;
-    const chosenCost = DEPLOY_COSTS[chosenType];
+    const chosenCost = state.rules.economy.deployCosts[chosenType];
 
     // Attempt deploy (consumes turn if it succeeds)
-    applyDeploy(state, sq, chosenType, chosenCost);
+    const before = takeSnapshot();
+    const res = applyDeploy(state, sq, chosenType, "none");
 
+    if (res.ok) {
+      recordUndo(undoStack, before);
+      moveLog.push({ text: formatAction(before.state, { kind: "deploy", to: sq, type: chosenType, cost: chosenCost }) });
+      playEvents(res.events);
 
-    // If turn advanced, deployment succeeded. (applyDeploy always advances on success.)
-    // We'll detect success by checking if sideToMove flipped away from W.
-    const deployed = (state.sideToMove !== "W");
-
-    if (deployed) {
       // Clear any selection UI
       selected = null;
       legal = [];
       deployOpen = false;
 
-     
-
-      // Win check (deploy can cause star-burn deaths)
-      const win = winnerIfAny(state);
-      if (win) {
-        gameOver = { winner: win };
-        return;
-      }
-
-      // If it's now Black's turn, let AI respond
-      runBlackAIIfNeeded();
+      // Hazard phase (if due), game-over check (deploy can cause star-burn deaths, or mate),
+      // then Black's AI responds
+      finishTurn(aiToken);
       return;
     }
 
@@ -1386,10 +1451,6 @@ canvas.addEventListener("click", (ev) => {
   }
 
 
-  const aliveBefore = new Set(
-    state.pieces.filter(p => p.alive).map(p => p.id)
-  );
-
   const sq = screenToSquare(x, y);
   if (!sq) return;
 
@@ -1401,78 +1462,177 @@ canvas.addEventListener("click", (ev) => {
 
   selected = sq;
 
-  if (p.type === "R") {
-    legal = slideLegalDests(state, sq, [
-      { dr: -1, dc: 0 },
-      { dr: 1, dc: 0 },
-      { dr: 0, dc: -1 },
-      { dr: 0, dc: 1 },
-    ]);
-  } else if (p.type === "B") {
-    legal = slideLegalDests(state, sq, [
-      { dr: -1, dc: -1 },
-      { dr: -1, dc: 1 },
-      { dr: 1, dc: -1 },
-      { dr: 1, dc: 1 },
-    ]);
-  } else if (p.type === "P") {
-  legal = pawnLegalDests(state, sq, p.side);
-} else if (p.type === "Q") {
-    legal = slideLegalDests(state, sq, [
-      { dr: -1, dc: 0 },
-      { dr: 1, dc: 0 },
-      { dr: 0, dc: -1 },
-      { dr: 0, dc: 1 },
-      { dr: -1, dc: -1 },
-      { dr: -1, dc: 1 },
-      { dr: 1, dc: -1 },
-      { dr: 1, dc: 1 },
-    ]);
-  } else if (p.type === "N") {
-  legal = knightLegalDests(state, sq);
-} else if (p.type === "K") {
-  legal = kingLegalDests(state, sq);
+  // Highlight exactly what the engine will accept (one entry per square, promotions collapse)
+  legal = [];
+  for (const a of generateLegalActions(state, state.sideToMove)) {
+    if (a.kind !== "move" || !sameSq(a.from, sq)) continue;
+    if (!legal.some(l => sameSq(l, a.to))) legal.push(a.to);
+  }
 
-  } else {
+  return;
+}
+// Pawn onto the far rank: ask which piece to promote to (unless it's flying into certain death)
+const move = mkMove(selected, sq);
+if (isPromotionMove(state, move) && legal.some(l => l.r === sq.r && l.c === sq.c)) {
+  const hz = flyerAt(state, sq);
+  const st = staticAt(state, sq);
+  const suicidal = (!!st && st.kind !== "wormhole") || (!!hz && hz.alive && hz.kind === "comet");
+  if (!suicidal) {
+    promotionPending = { from: selected, to: sq };
+    selected = null;
     legal = [];
+    return;
   }
+}
 
-  return;
+applyHumanMove(move);
+
+});
+
+function applyHumanMove(move: Move) {
+  // attempt move
+  const before = takeSnapshot();
+  const res = applyMove(state, move, "none");
+
+  selected = null;
+  legal = [];
+
+  if (!res.ok) return;
+  recordUndo(undoStack, before);
+  moveLog.push({ text: formatAction(before.state, { kind: "move", ...move }) });
+
+  // Explosions: anything that died due to this move (capture, suicide into hazard, star burn, etc.)
+  playEvents(res.events);
+
+  // Hazard phase (if due), game over check (king gone, Black mated/stalemated, draws),
+  // then Black AI responds
+  finishTurn(aiToken);
 }
-// Snapshot: alive pieces BEFORE White move
-const aliveBeforeAction = new Set(
-  state.pieces.filter(p => p.alive).map(p => p.id)
-);
 
-// attempt move
-applyMove(state, mkMove(selected, sq));
+// --- Replay viewer ---
+// Steps through the game so far (or an imported one) frame by frame: every action, then every
+// hazard phase on its own, with the same explosions and trails as live play.
+type ReplayView = {
+  frames: ReplayFrame[];
+  moves: RecordMove[];
+  index: number;
+  playing: boolean;
+  speed: number;
+  lastStepAt: number;
+  scrubbing: boolean;
+};
 
-// Explosions: anything that died due to this move (capture, suicide into hazard, star burn, etc.)
-for (const p of state.pieces) {
-  if (aliveBeforeAction.has(p.id) && !p.alive) {
-    spawnExplosion(p.pos);
+let replayView: ReplayView | null = null;
+
+const REPLAY_STEP_MS = 1000; // one frame per second at 1×
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+function clearEffects() {
+  hazardTrails.length = 0;
+  explosions.length = 0;
+}
+
+function enterReplay() {
+  // A hazard phase still waiting belongs to the last move; the AI resumes on leaving
+  settleAiForTakeback();
+  autosave();
+
+  let frames: ReplayFrame[];
+  try {
+    frames = replayFrames({ seed: gameSeed, rules: state.rules, moves: moveLog });
+  } catch (e) {
+    window.alert(`Could not replay this game: ${(e as Error).message}`);
+    runBlackAIIfNeeded();
+    return;
   }
+
+  selected = null;
+  legal = [];
+  deployOpen = false;
+  promotionPending = null;
+  clearEffects();
+  replayView = {
+    frames,
+    moves: moveLog.map(m => ({ ...m })),
+    index: 0,
+    playing: true,
+    speed: 1,
+    lastStepAt: performance.now(),
+    scrubbing: false,
+  };
 }
 
-selected = null;
-legal = [];
+function exitReplay() {
+  replayView = null;
+  clearEffects();
+  runBlackAIIfNeeded();
+}
 
+// Jump to a frame; stepping one frame forward plays its effects, anything else just shows the position
+function replayGoTo(index: number) {
+  if (!replayView) return;
+  const view = replayView;
+  const target = Math.max(0, Math.min(view.frames.length - 1, index));
+  if (target === view.index) return;
+
+  clearEffects();
+  if (target === view.index + 1) playEvents(view.frames[target].events);
+  view.index = target;
+  view.lastStepAt = performance.now();
+}
 
+function toggleReplayPlay() {
+  if (!replayView) return;
+  const view = replayView;
+  // Play from the end starts over
+  if (!view.playing && view.index === view.frames.length - 1) replayGoTo(0);
+  view.playing = !view.playing;
+  view.lastStepAt = performance.now();
+}
 
+function cycleReplaySpeed() {
+  if (!replayView) return;
+  const i = REPLAY_SPEEDS.indexOf(replayView.speed);
+  replayView.speed = REPLAY_SPEEDS[(i + 1) % REPLAY_SPEEDS.length];
+}
 
+// Called every animation frame while replaying
+function advanceReplay(now: number) {
+  const view = replayView;
+  if (!view || !view.playing || view.scrubbing) return;
+  if (now - view.lastStepAt < REPLAY_STEP_MS / view.speed) return;
 
-// Check win after White's move
-  let win = winnerIfAny(state);
-  if (win) {
-    gameOver = { winner: win };
+  if (view.index >= view.frames.length - 1) {
+    view.playing = false;
     return;
   }
+  replayGoTo(view.index + 1);
+}
 
-  // Black AI responds (if it's now Black's turn)
-  runBlackAIIfNeeded();
+// Timeline scrubbing: press and drag anywhere on the bar
+function scrubTo(clientX: number) {
+  if (!replayView) return;
+  const rect = canvas.getBoundingClientRect();
+  const { timeline } = getUiRects(rect.width, rect.height);
+  const t = Math.max(0, Math.min(1, (clientX - rect.left - timeline.x) / timeline.w));
+  replayGoTo(Math.round(t * (replayView.frames.length - 1)));
+}
+
+canvas.addEventListener("mousedown", (ev) => {
+  if (!replayView) return;
+  const rect = canvas.getBoundingClientRect();
+  const { timeline } = getUiRects(rect.width, rect.height);
+  if (!pointInRect(ev.clientX - rect.left, ev.clientY - rect.top, timeline)) return;
+  replayView.scrubbing = true;
+  scrubTo(ev.clientX);
+});
 
- 
+window.addEventListener("mousemove", (ev) => {
+  if (replayView?.scrubbing) scrubTo(ev.clientX);
+});
 
+window.addEventListener("mouseup", () => {
+  if (replayView) replayView.scrubbing = false;
 });
 
 // --- Render ---
@@ -1528,6 +1688,49 @@ function spawnExplosion(sq: Square, ttl = 3000) {
   playExplosionSound();
 }
 
+// Effects driven by an action's event log: explosions for every destroyed piece, trails for flyers
+function playEvents(events: GameEvent[]) {
+  const nowT = performance.now();
+
+  for (const e of events) {
+    switch (e.kind) {
+      case "capture":
+      case "suicide":
+      case "cometImpact":
+      case "starBurn":
+      case "hazardKill":
+      case "swallowed":
+      case "crushed":
+        spawnExplosion(e.sq);
+        break;
+
+      case "hazardMove":
+        hazardTrails.push({
+          from: { ...e.from }, to: { ...e.to }, mid: e.path.filter(q => !sameSq(q, e.to)),
+          kind: e.hazard, t0: nowT, ttl: 900,
+        });
+        break;
+
+      case "hazardCollision": {
+        // Trail stops where the flyers met (they never left their squares when meeting midway)
+        const end = e.midway ? e.from : e.to;
+        hazardTrails.push({ from: { ...e.from }, to: { ...end }, mid: [], kind: e.hazard, t0: nowT, ttl: 900 });
+        spawnExplosion(end, 1500);
+        break;
+      }
+
+      case "wormholeTransit":
+        // Flyers flash out of the exit (pieces are simply drawn there)
+        if (e.target === "flyer") {
+          const mv = events.find(x => x.kind === "hazardMove" && x.hazardId === e.id);
+          const kind = mv?.kind === "hazardMove" ? mv.hazard : "comet";
+          hazardTrails.push({ from: { ...e.to }, to: { ...e.to }, mid: [], kind, t0: nowT, ttl: 900 });
+        }
+        break;
+    }
+  }
+}
+
 
 function draw(state: GameState) {
   const rect = canvas.getBoundingClientRect();
@@ -1542,8 +1745,8 @@ function draw(state: GameState) {
   ctx.fillRect(0, 0, viewW, viewH);
 
   // Tiles
-  for (let r = 0; r < ROWS; r++) {
-    for (let c = 0; c < COLS; c++) {
+  for (let r = 0; r < state.rows; r++) {
+    for (let c = 0; c < state.cols; c++) {
       const isDark = (r + c) % 2 === 1;
       ctx.fillStyle = isDark ? "#2a303d" : "#c9ced9";
       ctx.fillRect(x0 + c * tileSize, y0 + r * tileSize, tileSize, tileSize);
@@ -1558,6 +1761,16 @@ function draw(state: GameState) {
     }
   }
 
+  // Check highlight: king under attack (check rules only)
+  if (state.rules.kingSafety) {
+    for (const side of ["W", "B"] as const) {
+      const k = kingSquare(state, side);
+      if (!k || !isInCheck(state, side)) continue;
+      ctx.fillStyle = "rgba(229,62,62,0.55)";
+      ctx.fillRect(x0 + k.c * tileSize, y0 + k.r * tileSize, tileSize, tileSize);
+    }
+  }
+
     // Hazard trails (short-lived, shows last hazard tick step)
   const nowTrail = performance.now();
   for (let i = hazardTrails.length - 1; i >= 0; i--) {
@@ -1577,8 +1790,12 @@ function draw(state: GameState) {
     ? "rgba(255, 110, 40, 1)"   // hot orange for comets
     : "rgba(180, 190, 205, 1)"; // cool grey for asteroids
 
-    // draw the from and to squares as soft overlays
+    // draw the from and to squares (and any passed in between) as soft overlays
     ctx.fillRect(x0 + t.from.c * tileSize, y0 + t.from.r * tileSize, tileSize, tileSize);
+    ctx.globalAlpha = 0.52 * k;
+    for (const q of t.mid) {
+      ctx.fillRect(x0 + q.c * tileSize, y0 + q.r * tileSize, tileSize, tileSize);
+    }
     ctx.globalAlpha = 0.60 * k;
     ctx.fillRect(x0 + t.to.c * tileSize, y0 + t.to.r * tileSize, tileSize, tileSize);
 
@@ -1586,20 +1803,13 @@ function draw(state: GameState) {
   }
 
 
-  // Deploy target highlight (White only, when deploy panel is open)
-  if (deployOpen && state.sideToMove === "W" && canDeployNow(state)) {
-    const homeRow = deployHomeRowFor("W");
+  // Deploy target highlight (side to move, when deploy panel is open)
+  if (deployOpen && canDeployNow(state)) {
     ctx.fillStyle = "rgba(66, 153, 225, 0.20)"; // subtle blue
 
-    for (let c = 0; c < COLS; c++) {
-      const sq = { r: homeRow, c };
-      // Only highlight squares that are actually deployable
-      if (pieceAt(state, sq)) continue;
-      if (staticAt(state, sq)) continue;
-      const hz = flyerAt(state, sq);
-      if (hz && hz.alive) continue;
-
-      ctx.fillRect(x0 + c * tileSize, y0 + homeRow * tileSize, tileSize, tileSize);
+    // Only highlight squares that are actually deployable
+    for (const sq of deployTargetsFor(state, selectedDeployType)) {
+      ctx.fillRect(x0 + sq.c * tileSize, y0 + sq.r * tileSize, tileSize, tileSize);
     }
   }
 
@@ -1613,24 +1823,60 @@ function draw(state: GameState) {
   ctx.fillStyle = "rgba(255,255,255,0.6)";
   ctx.font = `${Math.floor(tileSize * 0.28)}px system-ui, sans-serif`;
 
-  // ranks: 10..1 down the left
+  // ranks: rows..1 down the left
   ctx.textAlign = "right";
   ctx.textBaseline = "middle";
-  for (let r = 0; r < ROWS; r++) {
-    const rank = ROWS - r;
+  for (let r = 0; r < state.rows; r++) {
+    const rank = state.rows - r;
     const y = y0 + (r + 0.5) * tileSize;
     ctx.fillText(String(rank), x0 - 8, y);
   }
 
-  // files: A..T along the bottom
+  // files: A.. along the bottom
   ctx.textAlign = "center";
   ctx.textBaseline = "top";
-  for (let c = 0; c < COLS; c++) {
-    const file = FILES[c] ?? "?";
+  for (let c = 0; c < state.cols; c++) {
+    const file = fileName(c);
     const x = x0 + (c + 0.5) * tileSize;
     ctx.fillText(file, x, y0 + boardH + 6);
   }
 
+  // Nebulae: soft violet clouds over the tiles (pieces and flyers draw on top)
+  for (const n of state.nebulae) {
+    const nx = x0 + n.c * tileSize;
+    const ny = y0 + n.r * tileSize;
+
+    ctx.fillStyle = "rgba(159, 122, 234, 0.30)";
+    ctx.fillRect(nx, ny, tileSize, tileSize);
+
+    const g = ctx.createRadialGradient(
+      nx + tileSize * 0.5, ny + tileSize * 0.5, 0,
+      nx + tileSize * 0.5, ny + tileSize * 0.5, tileSize * 0.7
+    );
+    g.addColorStop(0, "rgba(237, 100, 166, 0.25)");
+    g.addColorStop(1, "rgba(237, 100, 166, 0)");
+    ctx.fillStyle = g;
+    ctx.fillRect(nx, ny, tileSize, tileSize);
+  }
+
+  // Orbiting planets: ghost outline on the square each moves to next
+  // (brighter when that happens on the coming hazard phase)
+  const orbitDue = ticksUntilOrbitStep(state);
+  if (orbitDue !== null) {
+    ctx.save();
+    ctx.setLineDash([4, 4]);
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = orbitDue === 1 ? "rgba(99, 179, 237, 0.9)" : "rgba(99, 179, 237, 0.4)";
+    for (const h of state.statics) {
+      const nxt = nextOrbitSquare(state, h);
+      if (!nxt) continue;
+      ctx.beginPath();
+      ctx.arc(x0 + (nxt.c + 0.5) * tileSize, y0 + (nxt.r + 0.5) * tileSize, tileSize * 0.38, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
   // Static hazards
   for (const h of state.statics) {
     const cx = x0 + (h.pos.c + 0.5) * tileSize;
@@ -1642,6 +1888,47 @@ function draw(state: GameState) {
       ctx.beginPath();
       ctx.arc(cx, cy, rad, 0, Math.PI * 2);
       ctx.fill();
+    } else if (h.kind === "wormhole") {
+      // Swirl in a colour shared by both ends of the pair
+      const pairColors = ["#38b2ac", "#ed64a6", "#ecc94b", "#9f7aea"];
+      const col = pairColors[(h.pair ?? 0) % pairColors.length];
+      const spin = performance.now() / 400;
+
+      ctx.strokeStyle = col;
+      ctx.lineWidth = 2;
+      for (let k = 0; k < 3; k++) {
+        ctx.beginPath();
+        ctx.arc(cx, cy, rad * (0.45 + 0.3 * k), spin + k * 2.1, spin + k * 2.1 + Math.PI * 1.2);
+        ctx.stroke();
+      }
+
+      ctx.fillStyle = "#0b1020";
+      ctx.beginPath();
+      ctx.arc(cx, cy, rad * 0.3, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (h.kind === "blackhole") {
+      // Pull zone: faint violet wash over every square in range
+      const reach = blackHolePullRadius(state);
+      ctx.fillStyle = "rgba(128, 90, 213, 0.10)";
+      ctx.fillRect(
+        x0 + Math.max(0, h.pos.c - reach) * tileSize,
+        y0 + Math.max(0, h.pos.r - reach) * tileSize,
+        (Math.min(state.cols - 1, h.pos.c + reach) - Math.max(0, h.pos.c - reach) + 1) * tileSize,
+        (Math.min(state.rows - 1, h.pos.r + reach) - Math.max(0, h.pos.r - reach) + 1) * tileSize
+      );
+
+      // Slowly spinning accretion ring around a black core
+      const spin = performance.now() / 600;
+      ctx.strokeStyle = "rgba(183, 148, 244, 0.85)";
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.ellipse(cx, cy, rad * 1.3, rad * 0.55, spin, 0, Math.PI * 2);
+      ctx.stroke();
+
+      ctx.fillStyle = "#000";
+      ctx.beginPath();
+      ctx.arc(cx, cy, rad * 0.75, 0, Math.PI * 2);
+      ctx.fill();
     } else {
       ctx.fillStyle = "#f6e05e";
       ctx.beginPath();
@@ -1656,23 +1943,54 @@ function draw(state: GameState) {
     }
   }
 
+  // Incoming-hazard warnings: forecast spawns blink on their edge square, arrow along the flight
+  const blink = 0.55 + 0.45 * Math.sin(performance.now() / 180);
+  for (const sp of state.pendingSpawns) {
+    const cx = x0 + (sp.pos.c + 0.5) * tileSize;
+    const cy = y0 + (sp.pos.r + 0.5) * tileSize;
+    const step = stepForDir(sp.dir);
+    const norm = Math.hypot(step.dr, step.dc);
+    const ux = step.dc / norm;
+    const uy = step.dr / norm;
+
+    ctx.save();
+    ctx.globalAlpha = blink;
+    ctx.strokeStyle = sp.kind === "comet" ? "rgba(248, 60, 40, 1)" : "rgba(180, 190, 205, 1)";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x0 + sp.pos.c * tileSize + 2, y0 + sp.pos.r * tileSize + 2, tileSize - 4, tileSize - 4);
+
+    // Arrow head(s): one per square of speed
+    ctx.fillStyle = ctx.strokeStyle;
+    for (let k = 0; k < sp.speed; k++) {
+      const ax = cx + ux * tileSize * (0.05 + 0.18 * k);
+      const ay = cy + uy * tileSize * (0.05 + 0.18 * k);
+      const s = tileSize * 0.16;
+      ctx.beginPath();
+      ctx.moveTo(ax + ux * s, ay + uy * s);
+      ctx.lineTo(ax - ux * s - uy * s, ay - uy * s + ux * s);
+      ctx.lineTo(ax - ux * s + uy * s, ay - uy * s - ux * s);
+      ctx.closePath();
+      ctx.fill();
+    }
+    ctx.restore();
+  }
+
   // Flying hazards
     // Flying hazards (directional: bright core + tail)
  for (const hz of state.flyers) {
   const cx = x0 + (hz.pos.c + 0.5) * tileSize;
   const cy = y0 + (hz.pos.r + 0.5) * tileSize;
 
-  let dx = 0, dy = 0;
-  switch (hz.dir) {
-    case "E": dx = 1; dy = 0; break;
-    case "W": dx = -1; dy = 0; break;
-    case "N": dx = 0; dy = -1; break;
-    case "S": dx = 0; dy = 1; break;
-  }
+  // Unit vector along the flight direction (diagonals normalized)
+  const step = stepForDir(hz.dir);
+  const norm = Math.hypot(step.dr, step.dc);
+  const dx = step.dc / norm;
+  const dy = step.dr / norm;
 
   const isAsteroid = hz.kind === "asteroid";
 
-  const tailLen = tileSize * (isAsteroid ? 0.28 : 0.50);
+  // Fast comets trail longer tails
+  const tailLen = tileSize * (isAsteroid ? 0.28 : 0.50) * Math.min(2, 1 + 0.5 * (hz.speed - 1));
   const tailWidth = tileSize * (isAsteroid ? 0.18 : 0.25);
 
   const tx = cx - dx * tailLen;
@@ -1861,15 +2179,88 @@ ctx.drawImage(
     );
   }
 
-  if (lastBlackMoveFrom) strokeSquare(lastBlackMoveFrom, "rgba(229,62,62,0.85)", 4);
-  if (lastBlackMoveTo) strokeSquare(lastBlackMoveTo, "rgba(229,62,62,1)", 4);
+  // Last-move highlight: Black's last action live, the frame's action in a replay
+  const replayAction = replayView?.frames[replayView.index].action;
+  const moveFrom = replayView ? (replayAction?.kind === "move" ? replayAction.from : replayAction?.to) : lastBlackMoveFrom;
+  const moveTo = replayView ? replayAction?.to : lastBlackMoveTo;
+  if (moveFrom) strokeSquare(moveFrom, "rgba(229,62,62,0.85)", 4);
+  if (moveTo) strokeSquare(moveTo, "rgba(229,62,62,1)", 4);
 
 
 
    // Factories (manufacturing) + Deploy panel UI
-  const { factoryB, factoryW, panel } = getUiRects(viewW, viewH);
+  const { factoryB, factoryW, panel, promoPanel, undoBtn, redoBtn, exportBtn, importBtn, replayBtn } = getUiRects(viewW, viewH);
+
+  function drawButton(rect: { x: number; y: number; w: number; h: number }, label: string, enabled: boolean) {
+    ctx.save();
+    ctx.globalAlpha = enabled ? 1 : 0.35;
+    ctx.fillStyle = "rgba(255,255,255,0.10)";
+    ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+    ctx.strokeStyle = "rgba(255,255,255,0.25)";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(rect.x, rect.y, rect.w, rect.h);
+    ctx.fillStyle = "rgba(255,255,255,0.92)";
+    ctx.font = "13px system-ui, sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(label, rect.x + rect.w / 2, rect.y + rect.h / 2);
+    ctx.restore();
+  }
+
+  drawButton(undoBtn, "Undo", canUndo(undoStack));
+  drawButton(redoBtn, "Redo", canRedo(undoStack));
+  drawButton(exportBtn, "Export", true);
+  drawButton(importBtn, "Import", true);
+  drawButton(replayBtn, replayView ? "Live" : "Replay", true);
+
+  // Replay bar under the board, with the current frame's move above the board
+  function drawReplayControls(viewW: number, viewH: number) {
+    if (!replayView) return;
+    const view = replayView;
+    const { replayControls: rc, timeline } = getUiRects(viewW, viewH);
+    const last = view.frames.length - 1;
+
+    drawButton(rc.first, "⏮", view.index > 0);
+    drawButton(rc.back, "◀", view.index > 0);
+    drawButton(rc.play, view.playing ? "❚❚" : "▶", true);
+    drawButton(rc.forward, "▶▶", view.index < last);
+    drawButton(rc.last, "⏭", view.index < last);
+    drawButton(rc.speed, `${view.speed}×`, true);
+
+    ctx.save();
+
+    // Track, progress, and a tick for every hazard phase
+    ctx.fillStyle = "rgba(255,255,255,0.10)";
+    ctx.fillRect(timeline.x, timeline.y, timeline.w, timeline.h);
+    const xAt = (i: number) => timeline.x + (last > 0 ? (i / last) * timeline.w : 0);
+    ctx.fillStyle = "rgba(66,153,225,0.35)";
+    ctx.fillRect(timeline.x, timeline.y, xAt(view.index) - timeline.x, timeline.h);
+    ctx.fillStyle = "rgba(255,200,120,0.45)";
+    view.frames.forEach((f, i) => {
+      if (f.kind === "hazards") ctx.fillRect(Math.round(xAt(i)), timeline.y + timeline.h - 6, 1, 6);
+    });
+    ctx.fillStyle = "rgba(255,255,255,0.95)";
+    ctx.fillRect(Math.round(xAt(view.index)) - 2, timeline.y - 3, 4, timeline.h + 6);
+    ctx.strokeStyle = "rgba(255,255,255,0.25)";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(timeline.x, timeline.y, timeline.w, timeline.h);
+
+    // What this frame shows
+    const frame = view.frames[view.index];
+    const what = frame.kind === "start"
+      ? "Start"
+      : `${moveLabel(frame.moveIndex, view.moves[frame.moveIndex].text)}${frame.kind === "hazards" ? " · hazards" : ""}`;
+    const { x0, y0 } = computeBoardLayout(viewW, viewH);
+    ctx.fillStyle = "rgba(255,255,255,0.92)";
+    ctx.font = "15px system-ui, sans-serif";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "bottom";
+    ctx.fillText(`Replay ${view.index}/${last}   ${what}`, x0, y0 - 8);
+
+    ctx.restore();
+  }
 
-  function drawFactory(rect: { x: number; y: number; w: number; h: number }, points: number, active: boolean) {
+  function drawFactory(rect: { x: number; y: number; w: number; h: number }, points: number, income: number, active: boolean) {
     ctx.save();
 
     // background
@@ -1894,13 +2285,20 @@ ctx.drawImage(
     ctx.font = "16px system-ui, sans-serif";
     ctx.fillText(String(points), rect.x + rect.w / 2, rect.y + rect.h * 0.78);
 
+    // planet mining income, paid at the end of each round
+    if (state.rules.economy.planetIncome > 0) {
+      ctx.font = "11px system-ui, sans-serif";
+      ctx.fillStyle = income > 0 ? "rgba(140,230,140,0.95)" : "rgba(255,255,255,0.55)";
+      ctx.fillText(`+${income}/round`, rect.x + rect.w / 2, rect.y + rect.h * 0.12);
+    }
+
     ctx.restore();
   }
 
   // Black (top) / White (bottom)
-  // "Active" glow is just: whose turn it is (and only White can deploy for now)
-  drawFactory(factoryB, state.manufacturing.B, state.sideToMove === "B");
-  drawFactory(factoryW, state.manufacturing.W, state.sideToMove === "W");
+  // "Active" glow is just: whose turn it is
+  drawFactory(factoryB, state.manufacturing.B, planetIncome(state, "B"), state.sideToMove === "B");
+  drawFactory(factoryW, state.manufacturing.W, planetIncome(state, "W"), state.sideToMove === "W");
 
   // Deploy panel overlay
   if (deployOpen) {
@@ -1969,18 +2367,15 @@ ctx.drawImage(
     }
 
 
-        const chosenCost = DEPLOY_COSTS[selectedDeployType];
+        const chosenCost = state.rules.economy.deployCosts[selectedDeployType];
     const need = Math.max(0, chosenCost - mp);
 
-    if (side !== "W") {
-      ctx.fillStyle = "rgba(255,120,120,0.95)";
-      ctx.fillText("Deploy UI is White-only (for now).", panel.x + 16, panel.y + 92 + 5 * 30 + 10);
-    } else if (mp < chosenCost) {
+    if (mp < chosenCost) {
       ctx.fillStyle = "rgba(255,120,120,0.95)";
       ctx.fillText(`Not enough points for ${selectedDeployType}: need ${need} more.`, panel.x + 16, panel.y + 92 + 5 * 30 + 10);
     } else {
       ctx.fillStyle = "rgba(200,255,200,0.95)";
-      ctx.fillText("Click a square on rank 1 to deploy.", panel.x + 16, panel.y + 92 + 5 * 30 + 10);
+      ctx.fillText(`Click a square ${deployZoneHint(side)} to deploy.`, panel.x + 16, panel.y + 92 + 5 * 30 + 10);
     }
 
 
@@ -1990,8 +2385,62 @@ ctx.drawImage(
     ctx.restore();
   }
 
+  // Promotion picker overlay
+  if (promotionPending) {
+    ctx.save();
+
+    // Dim the board
+    ctx.fillStyle = "rgba(0,0,0,0.55)";
+    ctx.fillRect(0, 0, viewW, viewH);
+
+    // Panel box
+    ctx.fillStyle = "rgba(20,24,32,0.92)";
+    ctx.fillRect(promoPanel.x, promoPanel.y, promoPanel.w, promoPanel.h);
+
+    ctx.strokeStyle = "rgba(255,255,255,0.25)";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(promoPanel.x, promoPanel.y, promoPanel.w, promoPanel.h);
+
+    ctx.fillStyle = "rgba(255,255,255,0.95)";
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+    ctx.font = "18px system-ui, sans-serif";
+    ctx.fillText("Promote Pawn", promoPanel.x + 16, promoPanel.y + 14);
+
+    for (const ch of getPromotionChoices(promoPanel)) {
+      ctx.save();
+
+      ctx.fillStyle = ch.type === "Q" ? "rgba(72,187,120,0.22)" : "rgba(255,255,255,0.06)";
+      ctx.fillRect(ch.rect.x, ch.rect.y, ch.rect.w, ch.rect.h);
+
+      ctx.strokeStyle = "rgba(255,255,255,0.18)";
+      ctx.lineWidth = 1;
+      ctx.strokeRect(ch.rect.x, ch.rect.y, ch.rect.w, ch.rect.h);
+
+      ctx.fillStyle = "rgba(255,255,255,0.92)";
+      ctx.textAlign = "left";
+      ctx.textBaseline = "middle";
+      ctx.font = "14px system-ui, sans-serif";
+      ctx.fillText(
+        `${ch.type}  ${shipLabel(ch.type)}`,
+        ch.rect.x + 10,
+        ch.rect.y + ch.rect.h / 2
+      );
+
+      ctx.restore();
+    }
+
+    ctx.fillStyle = "rgba(255,255,255,0.6)";
+    ctx.font = "14px system-ui, sans-serif";
+    ctx.fillText("Click outside this panel to cancel.", promoPanel.x + 16, promoPanel.y + promoPanel.h - 34);
+
+    ctx.restore();
+  }
+
+  if (replayView) drawReplayControls(viewW, viewH);
+
     // --- Game Over overlay (wins + reset hint) ---
-  if (gameOver) {
+  if (gameOver && !replayView) {
     ctx.save();
 
     ctx.fillStyle = "rgba(0,0,0,0.65)";
@@ -2002,13 +2451,13 @@ ctx.drawImage(
     ctx.textBaseline = "middle";
     ctx.font = "48px system-ui, sans-serif";
     ctx.fillText(
-      `${gameOver.winner === "W" ? "White" : "Black"} wins`,
+      describeResult(gameOver),
       viewW / 2,
       viewH / 2 - 20
     );
 
     ctx.font = "18px system-ui, sans-serif";
-    ctx.fillText(`Press R to restart`, viewW / 2, viewH / 2 + 30);
+    ctx.fillText(`Press R to restart, Ctrl+Z to take back, V to watch the replay`, viewW / 2, viewH / 2 + 30);
 
     ctx.restore();
   }
@@ -2016,7 +2465,12 @@ ctx.drawImage(
 }
 
 function loop() {
-  draw(state);
+  if (replayView) {
+    advanceReplay(performance.now());
+    draw(replayView.frames[replayView.index].state);
+  } else {
+    draw(state);
+  }
   requestAnimationFrame(loop);
 }
 loop();